@@ -0,0 +1,121 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  scryptSync,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import md5 from "spark-md5";
+import { AccessCodeEntry, getServerSideConfig } from "../config/server";
+
+const serverConfig = getServerSideConfig();
+
+// without a configured secret, tokens only live until the server restarts
+const SESSION_SECRET =
+  serverConfig.sessionSecret ?? randomBytes(32).toString("hex");
+
+const KEY_LENGTH = 32;
+
+// not an md5, so no code or label can end up with the admin's id
+const ADMIN_ID = "admin";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number,
+) => Promise<Buffer>;
+
+export function hashAccessCode(
+  code: string,
+  salt = randomBytes(16).toString("hex"),
+) {
+  const key = scryptSync(code, salt, KEY_LENGTH).toString("hex");
+  return `scrypt$${salt}$${key}`;
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// scrypt runs off the event loop, a wrong guess must not stall other requests
+async function matches(code: string, hash: string) {
+  const [scheme, ...parts] = hash.split("$");
+  if (scheme === "md5" && parts.length === 1) {
+    return safeEqual(md5.hash(code), parts[0]);
+  }
+  if (scheme === "scrypt" && parts.length === 2) {
+    const key = await scryptAsync(code, parts[0], KEY_LENGTH);
+    return safeEqual(key.toString("hex"), parts[1]);
+  }
+  return false;
+}
+
+function getEntries(): AccessCodeEntry[] {
+  const admin = serverConfig.usageAdminCode;
+  if (!admin) return serverConfig.codes;
+
+  // the admin code logs in to read usage, even if it is also listed
+  return [
+    {
+      id: ADMIN_ID,
+      label: "admin",
+      hash: `md5$${md5.hash(admin)}`,
+      admin: true,
+    },
+    ...serverConfig.codes,
+  ];
+}
+
+export function isAdmin(entry?: AccessCodeEntry) {
+  return entry?.admin === true;
+}
+
+export function isExpired(entry: AccessCodeEntry) {
+  return entry.expires != null && entry.expires <= Date.now();
+}
+
+// expired entries are returned too, callers tell the user why they failed
+export async function findAccessCode(code: string) {
+  if (!code) return;
+  for (const entry of getEntries()) {
+    if (await matches(code, entry.hash)) return entry;
+  }
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", SESSION_SECRET)
+    .update(payload)
+    .digest("base64url");
+}
+
+export function signSession(entry: AccessCodeEntry) {
+  const expires = Math.min(
+    Date.now() + serverConfig.sessionTtl,
+    entry.expires ?? Infinity,
+  );
+  const payload = Buffer.from(
+    JSON.stringify({ id: entry.id, exp: expires }),
+  ).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expires };
+}
+
+export function verifySession(token: string) {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature || !safeEqual(sign(payload), signature)) return;
+
+  try {
+    const { id, exp } = JSON.parse(
+      Buffer.from(payload, "base64url").toString(),
+    );
+    if (typeof exp !== "number" || exp <= Date.now()) return;
+
+    // removing a code from the config revokes its sessions
+    const entry = getEntries().find((entry) => entry.id === id);
+    return entry && !isExpired(entry) ? entry : undefined;
+  } catch {
+    return;
+  }
+}
@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getServerSideConfig } from "../config/server";
+import { createLogger } from "./logger";
+
+const serverConfig = getServerSideConfig();
+const log = createLogger("Usage");
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+// entries older than this are dropped from memory, the file keeps them
+const KEEP_DAYS = 62;
+
+// who paid for a call, requests with the user's own key share one bucket
+export const OWN_KEY = "own-key";
+
+export type UsageEntry = {
+  time: number;
+  // hashed access code or OWN_KEY
+  key: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // counted by the proxy instead of reported by the upstream
+  estimated: boolean;
+};
+
+export type UsageTotal = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// what /api/usage answers, tokens of this month
+export type UsageReport = {
+  today: UsageTotal;
+  month: UsageTotal;
+  byModel: Record<string, UsageTotal>;
+  // only for the admin code
+  byCode?: Record<string, UsageTotal>;
+};
+
+export interface UsageStore {
+  record(entry: UsageEntry): Promise<void>;
+  list(since: number, key?: string): Promise<UsageEntry[]>;
+}
+
+export function createMemoryUsageStore(entries: UsageEntry[] = []): UsageStore {
+  return {
+    async record(entry) {
+      entries.push(entry);
+      const expired = Date.now() - KEEP_DAYS * ONE_DAY;
+      while (entries.length > 0 && entries[0].time < expired) {
+        entries.shift();
+      }
+    },
+    async list(since, key) {
+      return entries.filter(
+        (entry) => entry.time >= since && (!key || entry.key === key),
+      );
+    },
+  };
+}
+
+function parseEntry(line: string) {
+  try {
+    return JSON.parse(line) as UsageEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+// one json entry per line, read once and appended to afterwards
+export function createFileUsageStore(file: string): UsageStore {
+  let memory: Promise<UsageStore> | undefined;
+
+  function load() {
+    memory ??= fs
+      .readFile(file, "utf-8")
+      .catch(() => "")
+      .then((content) => {
+        const lines = content.split("\n").filter((line) => line.trim());
+        // a crash in the middle of an append leaves a cut off line
+        const entries = lines
+          .map(parseEntry)
+          .filter((entry): entry is UsageEntry => entry != null);
+        if (entries.length < lines.length) {
+          log.warn("skipped unreadable lines", {
+            file,
+            count: lines.length - entries.length,
+          });
+        }
+        return createMemoryUsageStore(
+          entries.filter(
+            (entry) => entry.time >= Date.now() - KEEP_DAYS * ONE_DAY,
+          ),
+        );
+      })
+      .catch((e) => {
+        // the next call reads the file again
+        memory = undefined;
+        throw e;
+      });
+    return memory;
+  }
+
+  return {
+    async record(entry) {
+      await (await load()).record(entry);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.appendFile(file, JSON.stringify(entry) + "\n");
+    },
+    async list(since, key) {
+      return (await load()).list(since, key);
+    },
+  };
+}
+
+let usageStore: UsageStore | undefined;
+
+export function getUsageStore() {
+  usageStore ??=
+    serverConfig.usageStore === "file"
+      ? createFileUsageStore(serverConfig.usageFile)
+      : createMemoryUsageStore();
+  return usageStore;
+}
+
+export function recordUsage(entry: Omit<UsageEntry, "time">) {
+  getUsageStore()
+    .record({ time: Date.now(), ...entry })
+    .catch((e) => log.error("failed to record", { error: e }));
+}
+
+export function startOfDay(now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+export function startOfMonth(now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+export function sumUsage(entries: UsageEntry[]): UsageTotal {
+  return entries.reduce(
+    (total, entry) => ({
+      requests: total.requests + 1,
+      promptTokens: total.promptTokens + entry.promptTokens,
+      completionTokens: total.completionTokens + entry.completionTokens,
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0 },
+  );
+}
+
+export function groupUsage(
+  entries: UsageEntry[],
+  by: (entry: UsageEntry) => string,
+) {
+  const groups: Record<string, UsageEntry[]> = {};
+  for (const entry of entries) {
+    (groups[by(entry)] ??= []).push(entry);
+  }
+  return Object.fromEntries(
+    Object.entries(groups).map(([name, group]) => [name, sumUsage(group)]),
+  );
+}
@@ -1,11 +1,16 @@
 import { NextRequest } from "next/server";
 import { getServerSideConfig } from "../config/server";
 import md5 from "spark-md5";
-import { ACCESS_CODE_PREFIX } from "../constant";
+import { ACCESS_CODE_PREFIX, SESSION_TOKEN_PREFIX } from "../constant";
+import { ProviderAdapter } from "./providers";
+import { requestLogger } from "./logger";
+import { findAccessCode, isExpired, verifySession } from "./access";
+import { loginLimiter } from "./rate-limit";
+import type { ApiErrorCode } from "./openai/typing";
 
 const serverConfig = getServerSideConfig();
 
-function getIP(req: NextRequest) {
+export function getIP(req: NextRequest) {
   let ip = req.ip ?? req.headers.get("x-real-ip");
   const forwardedFor = req.headers.get("x-forwarded-for");
 
@@ -16,56 +21,118 @@ function getIP(req: NextRequest) {
   return ip;
 }
 
-function parseApiKey(bearToken: string) {
+export function parseApiKey(bearToken: string) {
   const token = bearToken.trim().replaceAll("Bearer ", "").trim();
-  const isOpenAiKey = !token.startsWith(ACCESS_CODE_PREFIX);
+  const isAccessCode = token.startsWith(ACCESS_CODE_PREFIX);
+  const isSession = token.startsWith(SESSION_TOKEN_PREFIX);
 
   return {
-    accessCode: isOpenAiKey ? "" : token.slice(ACCESS_CODE_PREFIX.length),
-    apiKey: isOpenAiKey ? token : "",
+    accessCode: isAccessCode ? token.slice(ACCESS_CODE_PREFIX.length) : "",
+    sessionToken: isSession ? token.slice(SESSION_TOKEN_PREFIX.length) : "",
+    apiKey: isAccessCode || isSession ? "" : token,
   };
 }
 
-export function auth(req: NextRequest) {
-  const authToken = req.headers.get("Authorization") ?? "";
+// the access code behind a session token, or a raw code sent by older clients
+export async function resolveAccess(req: NextRequest) {
+  const { accessCode, sessionToken, apiKey } = parseApiKey(
+    req.headers.get("Authorization") ?? "",
+  );
 
-  // check if it is openai api key or user token
-  const { accessCode, apiKey: token } = parseApiKey(authToken);
+  if (sessionToken) {
+    const entry = verifySession(sessionToken);
+    return {
+      entry,
+      apiKey,
+      error: entry ? undefined : ("session_expired" as ApiErrorCode),
+    };
+  }
 
-  const hashedCode = md5.hash(accessCode ?? "").trim();
+  // wrong codes sent here count as login attempts
+  const ip = getIP(req) ?? "";
+  const retryAfter = loginLimiter.wait(ip);
+  if (retryAfter > 0) {
+    return { apiKey, error: "rate_limited" as ApiErrorCode, retryAfter };
+  }
 
-  console.log("[Auth] allowed hashed codes: ", [...serverConfig.codes]);
-  console.log("[Auth] got access code:", accessCode);
-  console.log("[Auth] hashed access code:", hashedCode);
-  console.log("[User IP] ", getIP(req));
-  console.log("[Time] ", new Date().toLocaleString());
+  const entry = await findAccessCode(accessCode);
+  if (!entry && accessCode && serverConfig.needCode) {
+    loginLimiter.take(ip);
+  }
+  if (entry && isExpired(entry)) {
+    return { apiKey, error: "code_expired" as ApiErrorCode };
+  }
+  return {
+    // without codes configured everyone shares the hash of what they sent
+    entry:
+      entry ??
+      (serverConfig.needCode
+        ? undefined
+        : { id: md5.hash(accessCode), hash: "" }),
+    apiKey,
+    error: undefined,
+  };
+}
+
+export async function auth(req: NextRequest, provider: ProviderAdapter) {
+  const { entry, apiKey: token, error, retryAfter } = await resolveAccess(req);
+  const log = requestLogger(req, "Auth");
+
+  if (error === "rate_limited") {
+    log.warn("rejected, too many wrong access codes", { ip: getIP(req) });
+    return {
+      error: true,
+      code: error,
+      msg: `Too many wrong access codes, retry in ${retryAfter}s`,
+      retryAfter,
+    };
+  }
 
-  if (serverConfig.needCode && !serverConfig.codes.has(hashedCode) && !token) {
+  if (serverConfig.needCode && !entry && !token) {
+    log.warn("rejected, missing or wrong access code", {
+      reason: error,
+      ip: getIP(req),
+    });
     return {
       error: true,
       needAccessCode: true,
-      msg: "Please go settings page and fill your access code.",
+      code: error,
+      msg:
+        error === "session_expired"
+          ? "Session token is invalid or expired"
+          : error === "code_expired"
+          ? "Access code has expired"
+          : "Please go settings page and fill your access code.",
     };
   }
 
   // if user does not provide an api key, inject system api key
   if (!token) {
-    const apiKey = serverConfig.apiKey;
+    const apiKey = provider.apiKey;
     if (apiKey) {
-      console.log("[Auth] use system api key");
+      log.info("use system api key", {
+        provider: provider.name,
+        // a short prefix is enough to tell codes apart
+        user: entry?.label ?? entry?.id.slice(0, 8),
+        ip: getIP(req),
+      });
       req.headers.set("Authorization", `Bearer ${apiKey}`);
     } else {
-      console.log("[Auth] admin did not provide an api key");
+      log.error("admin did not provide an api key", {
+        provider: provider.name,
+      });
       return {
         error: true,
         msg: "Empty Api Key",
       };
     }
   } else {
-    console.log("[Auth] use user api key");
+    log.info("use user api key", { provider: provider.name, ip: getIP(req) });
   }
 
   return {
     error: false,
+    // policies only apply to requests paid with the system key
+    codeHash: token ? undefined : entry?.id,
   };
 }
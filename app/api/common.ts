@@ -1,44 +1,102 @@
 import { NextRequest } from "next/server";
+import { ProviderAdapter } from "./providers";
+import { ORG_ID_HEADER, Provider } from "../constant";
+import { getServerSideConfig } from "../config/server";
+import { requestLogger } from "./logger";
 
-const OPENAI_URL = "api.openai.com";
-const DEFAULT_PROTOCOL = "https";
-const PROTOCOL = process.env.PROTOCOL ?? DEFAULT_PROTOCOL;
-const BASE_URL = process.env.BASE_URL ?? OPENAI_URL;
+const serverConfig = getServerSideConfig();
 
-export async function requestOpenai(req: NextRequest) {
-  const authValue = req.headers.get("Authorization") ?? "";
-  const openaiPath = `${req.nextUrl.pathname}${req.nextUrl.search}`.replaceAll(
-    "/api/openai/",
-    "",
+const OPENAI_ROUTE = "/api/openai/";
+
+export function getOpenaiPath(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  const path = pathname.startsWith(OPENAI_ROUTE)
+    ? pathname.slice(OPENAI_ROUTE.length)
+    : pathname;
+  return `${path}${search}`;
+}
+
+// checked before the server key is injected, so only listed endpoints are paid for
+export function isPathAllowed(method: string, openaiPath: string) {
+  const path = openaiPath.split("?")[0];
+  // dot segments or encoded slashes could climb out of an allowed prefix upstream
+  if (/(^|\/)\.{1,2}(\/|$)|%2e|%2f|\\/i.test(path)) return false;
+
+  return serverConfig.proxyAllowedPaths.some(
+    (route) =>
+      (route.method === "*" || route.method === method.toUpperCase()) &&
+      (route.path.endsWith("*")
+        ? path.startsWith(route.path.slice(0, -1))
+        : path === route.path),
   );
+}
 
-  let baseUrl = BASE_URL;
+export function isModelAllowed(model?: string) {
+  const allowed = serverConfig.allowedModels;
+  return allowed.length === 0 || (!!model && allowed.includes(model));
+}
 
-  if (!baseUrl.startsWith("http")) {
-    baseUrl = `${PROTOCOL}://${baseUrl}`;
-  }
+// drops models the admin did not allow from a v1/models response
+export function filterModelList(body: any) {
+  if (!Array.isArray(body?.data)) return body;
+  return {
+    ...body,
+    data: body.data.filter((model: any) => isModelAllowed(model.id)),
+  };
+}
+
+// a parsed body replaces the one sent by the client, e.g. after policies changed it
+export async function requestOpenai(
+  req: NextRequest,
+  provider: ProviderAdapter,
+  parsedBody?: any,
+) {
+  const authValue = req.headers.get("Authorization") ?? "";
+  const apiKey = authValue.replace("Bearer ", "").trim();
+  // picked per connection profile on the client
+  const orgId = req.headers.get(ORG_ID_HEADER) ?? undefined;
+  const openaiPath = getOpenaiPath(req);
 
-  console.log("[Proxy] ", openaiPath);
-  console.log("[Base Url]", baseUrl);
+  let body = parsedBody
+    ? JSON.stringify(parsedBody)
+    : req.method === "GET"
+    ? null
+    : await req.text();
+  let json: any = parsedBody;
+  try {
+    json ??= body ? JSON.parse(body) : undefined;
+  } catch {
+    // not json, forward as is
+  }
 
-  if (process.env.OPENAI_ORG_ID) {
-    console.log("[Org ID]", process.env.OPENAI_ORG_ID);
+  if (json && provider.transformRequest) {
+    body = JSON.stringify(provider.transformRequest(openaiPath, json));
   }
 
-  if (!authValue || !authValue.startsWith("Bearer sk-")) {
-    console.error("[OpenAI Request] invlid api key provided", authValue);
+  const url = provider.url(openaiPath, json);
+
+  const log = requestLogger(req, "Proxy");
+  log.info("forward", {
+    path: openaiPath,
+    provider: provider.name,
+    upstream: url,
+    org:
+      provider.name === Provider.OpenAI
+        ? orgId || process.env.OPENAI_ORG_ID
+        : undefined,
+  });
+
+  if (provider.name === Provider.OpenAI && !apiKey.startsWith("sk-")) {
+    log.warn("api key does not look like an openai key");
   }
 
-  return fetch(`${baseUrl}/${openaiPath}`, {
+  return fetch(url, {
     headers: {
       "Content-Type": "application/json",
-      Authorization: authValue,
-      ...(process.env.OPENAI_ORG_ID && {
-        "OpenAI-Organization": process.env.OPENAI_ORG_ID,
-      }),
+      ...provider.headers(apiKey, orgId),
     },
     cache: "no-store",
     method: req.method,
-    body: req.body,
+    body,
   });
 }
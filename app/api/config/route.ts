@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 
 import { getServerSideConfig } from "../../config/server";
+import { getEnabledProviders } from "../providers";
 
 const serverConfig = getServerSideConfig();
 
@@ -9,6 +10,8 @@ const serverConfig = getServerSideConfig();
 const DANGER_CONFIG = {
   needCode: serverConfig.needCode,
   hideUserApiKey: serverConfig.hideUserApiKey,
+  providers: getEnabledProviders(),
+  allowedModels: serverConfig.allowedModels,
 };
 
 declare global {
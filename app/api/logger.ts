@@ -0,0 +1,116 @@
+import { NextRequest } from "next/server";
+import { getServerSideConfig } from "../config/server";
+import { REQUEST_ID_HEADER } from "../constant";
+
+const serverConfig = getServerSideConfig();
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = "[redacted]";
+
+// field names whose values never reach the logs
+const SECRET_KEY =
+  /^(authorization|api[-_]?key|secret|password|.*token|.*code|code[-_]?hash)$/i;
+// secrets that slip into free text, e.g. an upstream error echoing the key
+const SECRET_VALUE = /(Bearer\s+|sk-|sk-ant-|ak-)[\w-]{4,}/g;
+
+function redactText(text: string) {
+  return text.replace(SECRET_VALUE, (_, prefix: string) => prefix + REDACTED);
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      stack: value.stack ? redactText(value.stack) : undefined,
+    };
+  }
+  if (!value || typeof value !== "object") return value;
+  if (depth > 4) return "[object]";
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      SECRET_KEY.test(key) ? REDACTED : redact(v, depth + 1),
+    ]),
+  );
+}
+
+function write(level: LogLevel, scope: string, msg: string, fields: LogFields) {
+  if (LEVELS[level] < (LEVELS[serverConfig.logLevel] ?? LEVELS.info)) return;
+
+  const time = new Date().toISOString();
+  const safeFields = redact(fields) as LogFields;
+  const print =
+    level === "error"
+      ? console.error
+      : level === "warn"
+      ? console.warn
+      : console.log;
+
+  if (serverConfig.logFormat === "json") {
+    print(
+      JSON.stringify({
+        time,
+        level,
+        scope,
+        msg: redactText(msg),
+        ...safeFields,
+      }),
+    );
+    return;
+  }
+
+  const pairs = Object.entries(safeFields)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}=${typeof v === "string" ? v : JSON.stringify(v)}`);
+  print(
+    [time, level.toUpperCase(), `[${scope}]`, redactText(msg), ...pairs].join(
+      " ",
+    ),
+  );
+}
+
+export function createLogger(scope: string, fields: LogFields = {}): Logger {
+  return {
+    debug: (msg, extra) => write("debug", scope, msg, { ...fields, ...extra }),
+    info: (msg, extra) => write("info", scope, msg, { ...fields, ...extra }),
+    warn: (msg, extra) => write("warn", scope, msg, { ...fields, ...extra }),
+    error: (msg, extra) => write("error", scope, msg, { ...fields, ...extra }),
+    child: (extra) => createLogger(scope, { ...fields, ...extra }),
+  };
+}
+
+// the id lives on the request headers, so every step of one request shares it
+export function getRequestId(req: NextRequest) {
+  let id = req.headers.get(REQUEST_ID_HEADER);
+  // a caller may bring its own id, but it ends up in the logs as is
+  if (!id || !/^[\w-]{1,64}$/.test(id)) {
+    id = crypto.randomUUID();
+    req.headers.set(REQUEST_ID_HEADER, id);
+  }
+  return id;
+}
+
+export function requestLogger(req: NextRequest, scope: string) {
+  return createLogger(scope, { requestId: getRequestId(req) });
+}
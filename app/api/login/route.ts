@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findAccessCode, isExpired, signSession } from "../access";
+import { getIP } from "../auth";
+import { requestLogger } from "../logger";
+import { policyError } from "../policy";
+import { loginLimiter } from "../rate-limit";
+
+// trades an access code for a short lived session token
+async function handle(req: NextRequest) {
+  const log = requestLogger(req, "Login");
+
+  // checked before the code, every attempt costs a hash
+  const retryAfter = loginLimiter.take(getIP(req) ?? "");
+  if (retryAfter > 0) {
+    log.warn("rate limited", { ip: getIP(req), retryAfter });
+    return policyError(
+      "rate_limited",
+      `Too many login attempts, retry in ${retryAfter}s`,
+      429,
+      retryAfter,
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const code = typeof body?.code === "string" ? body.code.trim() : "";
+
+  const entry = await findAccessCode(code);
+  if (!entry) {
+    log.warn("rejected unknown access code");
+    return policyError("invalid_code", "Wrong access code", 401);
+  }
+  if (isExpired(entry)) {
+    log.warn("rejected expired access code", { label: entry.label });
+    return policyError(
+      "code_expired",
+      `Access code ${entry.label ?? ""} expired on ${new Date(
+        entry.expires!,
+      ).toLocaleDateString()}`,
+      401,
+    );
+  }
+
+  const session = signSession(entry);
+  log.info("issued session", {
+    label: entry.label,
+    expires: new Date(session.expires).toISOString(),
+  });
+  return NextResponse.json({ ...session, label: entry.label });
+}
+
+export const POST = handle;
+
+// hashes with node crypto
+export const runtime = "nodejs";
@@ -1,101 +1,300 @@
 import { createParser } from "eventsource-parser";
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "../../auth";
-import { requestOpenai } from "../../common";
+import { auth, getIP } from "../../auth";
+import {
+  filterModelList,
+  getOpenaiPath,
+  isModelAllowed,
+  isPathAllowed,
+  requestOpenai,
+} from "../../common";
+import { getProvider, ProviderAdapter, StreamUsage } from "../../providers";
+import {
+  checkPolicy,
+  estimatePromptTokens,
+  estimateTokens,
+  limitMaxTokens,
+  policyError,
+} from "../../policy";
+import { OWN_KEY, recordUsage } from "../../accounting";
+import { ipLimiter, requestLimiter } from "../../rate-limit";
+import { getRequestId, Logger, requestLogger } from "../../logger";
+import { REQUEST_ID_HEADER } from "../../../constant";
+import type { ChatStreamEvent } from "../typing";
 
-async function createStream(res: Response) {
+async function createStream(
+  res: Response,
+  provider: ProviderAdapter,
+  log: Logger,
+  onFinish?: (text: string, usage: StreamUsage) => void,
+) {
   const encoder = new TextEncoder();
   const decoder = new TextDecoder();
 
+  let closed = false;
+  // the client stopped reading, the upstream still sends the rest and usage
+  let clientGone = false;
   const stream = new ReadableStream({
     async start(controller) {
+      let streamed = "";
+      const usage: StreamUsage = {};
+
+      const send = (event: ChatStreamEvent) => {
+        if (closed || clientGone) return;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+        );
+      };
+      // usage goes last, upstreams report it right before they end
+      const close = () => {
+        if (closed) return;
+        if (usage.promptTokens != null || usage.completionTokens != null) {
+          send({ type: "usage", ...usage });
+        }
+        closed = true;
+        if (!clientGone) controller.close();
+      };
+
       function onParse(event: any) {
+        // parsed after close too, the rest still counts towards usage
         if (event.type === "event") {
-          const data = event.data;
-          // https://beta.openai.com/docs/api-reference/completions/create#completions/create-stream
-          if (data === "[DONE]") {
-            controller.close();
-            return;
-          }
           try {
-            const json = JSON.parse(data);
-            const text = json.choices[0].delta.content;
-            const queue = encoder.encode(text);
-            controller.enqueue(queue);
+            const parsed = provider.parseStreamEvent(event.data);
+            Object.assign(usage, parsed.usage);
+            if (parsed.text || parsed.toolCalls) {
+              streamed += parsed.text ?? "";
+              send({
+                type: "delta",
+                text: parsed.text ?? "",
+                role: parsed.role,
+                toolCalls: parsed.toolCalls,
+              });
+            }
+            if (parsed.finishReason) {
+              send({ type: "finish", reason: parsed.finishReason });
+            }
+            if (parsed.done) {
+              close();
+            }
           } catch (e) {
-            controller.error(e);
+            log.error("bad stream event", { error: e });
+            send({ type: "error", msg: (e as Error).message });
+            close();
           }
         }
       }
 
       const parser = createParser(onParse);
-      for await (const chunk of res.body as any) {
-        parser.feed(decoder.decode(chunk, { stream: true }));
+      try {
+        for await (const chunk of res.body as any) {
+          parser.feed(decoder.decode(chunk, { stream: true }));
+        }
+      } catch (e) {
+        // the upstream broke off, the client hears why and usage is still kept
+        log.error("upstream stream failed", { error: e });
+        send({ type: "error", msg: (e as Error).message });
       }
+      // not every compatible server ends with [DONE]
+      close();
+      log.info("stream finished", {
+        chars: streamed.length,
+        ...usage,
+      });
+      onFinish?.(streamed, usage);
+    },
+    // keep draining the upstream, so stopped replies are counted in full
+    cancel() {
+      clientGone = true;
     },
   });
   return stream;
 }
 
-function formatResponse(msg: any) {
-  const jsonMsg = ["```json\n", JSON.stringify(msg, null, "  "), "\n```"].join(
-    "",
-  );
-  return new Response(jsonMsg);
+// same shape as policy errors, so the client shows them instead of an empty reply
+function errorResponse(msg: string, status: number) {
+  return NextResponse.json({ error: true, msg }, { status });
 }
 
-async function handle(
+function describeUpstreamError(error: any) {
+  if (typeof error === "string") return error;
+  return error?.message ?? JSON.stringify(error);
+}
+
+async function proxy(
   req: NextRequest,
   { params }: { params: { path: string[] } },
 ) {
-  console.log("[OpenAI Route] params ", params);
+  const log = requestLogger(req, "OpenAI Route");
+  log.debug("params", { path: params.path.join("/") });
+
+  const openaiPath = getOpenaiPath(req);
+  if (!isPathAllowed(req.method, openaiPath)) {
+    log.warn("rejected path", { method: req.method, path: openaiPath });
+    return policyError(
+      "path_not_allowed",
+      `${req.method} ${openaiPath.split("?")[0]} is not allowed`,
+      403,
+    );
+  }
+
+  const provider = getProvider(req);
+  if (!provider.enabled) {
+    return policyError(
+      "provider_unavailable",
+      `Provider ${provider.name} is not configured on this server`,
+      400,
+    );
+  }
+
+  const body =
+    req.method === "POST"
+      ? await req
+          .clone()
+          .json()
+          .catch(() => null)
+      : null;
+
+  // the body can change the upstream path, so this belongs to the path check
+  const rejected = provider.checkRequest?.(openaiPath, body);
+  if (rejected) {
+    log.warn("rejected request", { provider: provider.name, reason: rejected });
+    return policyError("path_not_allowed", rejected, 403);
+  }
 
-  const authResult = auth(req);
+  const rateLimited = (retryAfter: number) => {
+    log.warn("rate limited", { retryAfter });
+    return policyError(
+      "rate_limited",
+      `Too many requests, retry in ${retryAfter}s`,
+      429,
+      retryAfter,
+    );
+  };
+
+  // before auth, checking an access code is the expensive part
+  const ip = getIP(req) ?? "";
+  const ipRetryAfter = ipLimiter.take(ip);
+  if (ipRetryAfter > 0) return rateLimited(ipRetryAfter);
+
+  const authResult = await auth(req, provider);
   if (authResult.error) {
     return NextResponse.json(authResult, {
-      status: 401,
+      status: authResult.code === "rate_limited" ? 429 : 401,
+      headers: authResult.retryAfter
+        ? { "Retry-After": String(authResult.retryAfter) }
+        : undefined,
     });
   }
 
+  const codeHash = authResult.codeHash;
+
+  const retryAfter = requestLimiter.take(`${codeHash ?? OWN_KEY}:${ip}`);
+  if (retryAfter > 0) return rateLimited(retryAfter);
+
+  if (body?.model && !isModelAllowed(body.model)) {
+    return policyError(
+      "model_not_allowed",
+      `Model ${body.model} is not allowed on this server`,
+      403,
+    );
+  }
+
+  let forwardBody = body;
+  if (codeHash) {
+    const policyResult = await checkPolicy(codeHash, body);
+    if (policyResult) return policyResult;
+    forwardBody = limitMaxTokens(codeHash, body);
+  }
+
+  // upstream counts when it reports them, our estimate otherwise
+  const record = (usage: StreamUsage, completion: string) => {
+    if (!body?.messages) return;
+    recordUsage({
+      key: codeHash ?? OWN_KEY,
+      provider: provider.name,
+      model: body.model ?? "unknown",
+      promptTokens: usage.promptTokens ?? estimatePromptTokens(body),
+      completionTokens: usage.completionTokens ?? estimateTokens(completion),
+      estimated: usage.promptTokens == null || usage.completionTokens == null,
+    });
+  };
+
   try {
-    const api = await requestOpenai(req);
+    const api = await requestOpenai(req, provider, forwardBody);
 
     const contentType = api.headers.get("Content-Type") ?? "";
 
     // streaming response
     if (contentType.includes("stream")) {
-      const stream = await createStream(api);
+      const stream = await createStream(api, provider, log, (text, usage) =>
+        record(usage, text),
+      );
       const res = new Response(stream);
-      res.headers.set("Content-Type", contentType);
+      res.headers.set("Content-Type", "text/event-stream");
+      res.headers.set("Cache-Control", "no-cache");
       return res;
     }
 
     // try to parse error msg
     try {
-      const mayBeErrorBody = await api.json();
+      let mayBeErrorBody = await api.json();
+      if (provider.transformResponse) {
+        mayBeErrorBody = provider.transformResponse(openaiPath, mayBeErrorBody);
+      }
+      if (openaiPath.startsWith("v1/models")) {
+        mayBeErrorBody = filterModelList(mayBeErrorBody);
+      }
       if (mayBeErrorBody.error) {
-        console.error("[OpenAI Response] ", mayBeErrorBody);
-        return formatResponse(mayBeErrorBody);
+        log.error("upstream error", {
+          status: api.status,
+          error: mayBeErrorBody.error,
+        });
+        // keep the upstream status, a 200 would read as an empty stream
+        return errorResponse(
+          describeUpstreamError(mayBeErrorBody.error),
+          api.status >= 400 ? api.status : 502,
+        );
       } else {
+        record(
+          {
+            promptTokens: mayBeErrorBody.usage?.prompt_tokens,
+            completionTokens: mayBeErrorBody.usage?.completion_tokens,
+          },
+          mayBeErrorBody.choices?.at(0)?.message?.content ?? "",
+        );
         const res = new Response(JSON.stringify(mayBeErrorBody));
         res.headers.set("Content-Type", "application/json");
         res.headers.set("Cache-Control", "no-cache");
         return res;
       }
     } catch (e) {
-      console.error("[OpenAI Parse] ", e);
-      return formatResponse({
-        msg: "invalid response from openai server",
+      log.error("invalid upstream response", {
+        status: api.status,
         error: e,
       });
+      return errorResponse(
+        `invalid response from openai server: ${(e as Error).message}`,
+        502,
+      );
     }
   } catch (e) {
-    console.error("[OpenAI] ", e);
-    return formatResponse(e);
+    log.error("request failed", { error: e });
+    return errorResponse((e as Error).message, 500);
   }
 }
 
+async function handle(
+  req: NextRequest,
+  context: { params: { path: string[] } },
+) {
+  const res = await proxy(req, context);
+  // lets users quote the id when reporting a failed request
+  res.headers.set(REQUEST_ID_HEADER, getRequestId(req));
+  return res;
+}
+
 export const GET = handle;
 export const POST = handle;
 
-export const runtime = "edge";
+// usage is written to disk
+export const runtime = "nodejs";
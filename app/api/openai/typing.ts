@@ -3,7 +3,86 @@ import type {
   CreateChatCompletionResponse,
 } from "openai";
 
-export type ChatRequest = CreateChatCompletionRequest;
+export type ResponseFormat = "text" | "json_object";
+
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    // json, as written by the model, so not always valid
+    arguments: string;
+  };
+};
+
+export type ToolDefinition = {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    // json schema of the arguments
+    parameters: Record<string, unknown>;
+  };
+};
+
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+export type ChatRequestMessage = {
+  role: ChatRole;
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+};
+
+// newer request fields the openai typings do not know yet
+export type ChatRequest = Omit<CreateChatCompletionRequest, "messages"> & {
+  messages: ChatRequestMessage[];
+  seed?: number;
+  response_format?: { type: ResponseFormat };
+  tools?: ToolDefinition[];
+};
 export type ChatResponse = CreateChatCompletionResponse;
 
+// "length" means the reply was cut off by max_tokens
+export type FinishReason = "stop" | "length" | "tool_calls" | "content_filter";
+
+export type ChatStreamUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+};
+
+// what the proxy streams to the client, one json object per sse event
+export type ChatStreamEvent =
+  | { type: "delta"; text: string; role?: string; toolCalls?: unknown[] }
+  | { type: "finish"; reason: FinishReason }
+  | ({ type: "usage" } & ChatStreamUsage)
+  | { type: "error"; msg: string };
+
+export type ChatStreamResult = {
+  finishReason?: FinishReason;
+  // assembled from the deltas, the model waits for their results
+  toolCalls?: ToolCall[];
+  usage?: ChatStreamUsage;
+  // the stream broke off or timed out, the reply is incomplete
+  interrupted?: boolean;
+};
+
+// carried in json error bodies of the proxy so the client can explain them
+export type ApiErrorCode =
+  | "provider_unavailable"
+  | "path_not_allowed"
+  | "model_not_allowed"
+  | "max_tokens_exceeded"
+  | "quota_exceeded"
+  | "rate_limited"
+  | "invalid_code"
+  | "code_expired"
+  | "session_expired";
+
+export type ApiError = {
+  error: true;
+  code?: ApiErrorCode;
+  msg: string;
+};
+
 export type Updater<T> = (updater: (value: T) => void) => void;
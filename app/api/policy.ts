@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { CodePolicy, getServerSideConfig } from "../config/server";
+import type { ApiErrorCode } from "./openai/typing";
+import { getUsageStore, startOfDay, sumUsage } from "./accounting";
+
+const serverConfig = getServerSideConfig();
+
+const ONE_MINUTE = 60 * 1000;
+
+// kept in memory, so per server instance
+const minuteRequests = new Map<string, { start: number; count: number }>();
+
+export function getPolicy(codeHash: string): CodePolicy | undefined {
+  return serverConfig.policies.get(codeHash) ?? serverConfig.policies.get("*");
+}
+
+export function policyError(
+  code: ApiErrorCode,
+  msg: string,
+  status: number,
+  retryAfter?: number,
+) {
+  return NextResponse.json(
+    { error: true, code, msg },
+    {
+      status,
+      headers:
+        retryAfter != null ? { "Retry-After": String(retryAfter) } : undefined,
+    },
+  );
+}
+
+// rough count, good enough to keep a quota
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimatePromptTokens(body: any) {
+  return ((body?.messages ?? []) as { content?: string }[]).reduce(
+    (count, message) => count + estimateTokens(message.content ?? ""),
+    0,
+  );
+}
+
+// without max_tokens a reply could run to the model limit, so it gets the policy's
+export function limitMaxTokens(codeHash: string, body: any) {
+  const maxTokens = getPolicy(codeHash)?.maxTokens;
+  if (maxTokens == null || !body?.messages || body.max_tokens != null) {
+    return body;
+  }
+  return { ...body, max_tokens: maxTokens };
+}
+
+export async function checkPolicy(codeHash: string, body: any) {
+  const policy = getPolicy(codeHash);
+  if (!policy) return null;
+
+  if (policy.models && body?.model && !policy.models.includes(body.model)) {
+    return policyError(
+      "model_not_allowed",
+      `Model ${body.model} is not allowed for this access code`,
+      403,
+    );
+  }
+
+  if (
+    policy.maxTokens != null &&
+    body?.messages &&
+    body.max_tokens > policy.maxTokens
+  ) {
+    return policyError(
+      "max_tokens_exceeded",
+      `Requests are limited to ${policy.maxTokens} max tokens`,
+      400,
+    );
+  }
+
+  if (policy.dailyTokens != null) {
+    const used = sumUsage(await getUsageStore().list(startOfDay(), codeHash));
+    if (used.promptTokens + used.completionTokens >= policy.dailyTokens) {
+      return policyError(
+        "quota_exceeded",
+        `Daily quota of ${policy.dailyTokens} tokens is used up`,
+        429,
+      );
+    }
+  }
+
+  if (policy.requestsPerMinute != null) {
+    const now = Date.now();
+    const window = minuteRequests.get(codeHash);
+    if (!window || now - window.start >= ONE_MINUTE) {
+      minuteRequests.set(codeHash, { start: now, count: 1 });
+    } else if (window.count >= policy.requestsPerMinute) {
+      return policyError(
+        "rate_limited",
+        `Limited to ${policy.requestsPerMinute} requests per minute`,
+        429,
+        Math.ceil((window.start + ONE_MINUTE - now) / 1000),
+      );
+    } else {
+      window.count += 1;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,325 @@
+import { NextRequest } from "next/server";
+import { getServerSideConfig } from "../config/server";
+import { ORG_ID_HEADER, Provider, PROVIDER_HEADER } from "../constant";
+import type { ChatStreamUsage, FinishReason } from "./openai/typing";
+
+const serverConfig = getServerSideConfig();
+
+const OPENAI_URL = "api.openai.com";
+const DEFAULT_PROTOCOL = "https";
+const PROTOCOL = process.env.PROTOCOL ?? DEFAULT_PROTOCOL;
+const BASE_URL = process.env.BASE_URL ?? OPENAI_URL;
+
+const CHAT_PATH = "v1/chat/completions";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export type StreamUsage = ChatStreamUsage;
+
+export type StreamEvent = {
+  text?: string;
+  role?: string;
+  toolCalls?: unknown[];
+  finishReason?: FinishReason;
+  done?: boolean;
+  // token counts, when the upstream reports them in the stream
+  usage?: StreamUsage;
+};
+
+export interface ProviderAdapter {
+  name: Provider;
+  // false when the admin did not configure an upstream for it
+  enabled: boolean;
+  // injected when the user brings no key of their own
+  apiKey?: string;
+
+  url(path: string, body?: any): string;
+  headers(apiKey: string, orgId?: string): Record<string, string>;
+  // requests and responses are openai shaped on the client side
+  transformRequest?(path: string, body: any): any;
+  transformResponse?(path: string, body: any): any;
+  // why a request can not be forwarded, checked before the key is injected
+  checkRequest?(path: string, body: any): string | undefined;
+  parseStreamEvent(data: string): StreamEvent;
+}
+
+function withProtocol(url: string) {
+  return url.startsWith("http") ? url : `${PROTOCOL}://${url}`;
+}
+
+function trimSlash(url: string) {
+  return url.endsWith("/") ? url.slice(0, -1) : url;
+}
+
+function bearer(apiKey: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+// https://platform.openai.com/docs/api-reference/chat/streaming
+function parseOpenaiStreamEvent(data: string): StreamEvent {
+  if (data === "[DONE]") {
+    return { done: true };
+  }
+  const json = JSON.parse(data);
+  // failures after the stream started arrive as an event of their own
+  if (json.error) {
+    throw new Error(json.error.message ?? "upstream stream error");
+  }
+  // azure sends content filter results with empty choices first
+  const choice = json.choices?.at(0);
+  return {
+    text: choice?.delta?.content ?? "",
+    role: choice?.delta?.role,
+    toolCalls: choice?.delta?.tool_calls,
+    finishReason: choice?.finish_reason ?? undefined,
+    usage: json.usage && {
+      promptTokens: json.usage.prompt_tokens,
+      completionTokens: json.usage.completion_tokens,
+    },
+  };
+}
+
+const openai: ProviderAdapter = {
+  name: Provider.OpenAI,
+  enabled: true,
+  apiKey: serverConfig.apiKey,
+
+  url(path) {
+    return `${trimSlash(withProtocol(BASE_URL))}/${path}`;
+  },
+  headers(apiKey, orgId) {
+    orgId = orgId || process.env.OPENAI_ORG_ID;
+    return {
+      ...bearer(apiKey),
+      ...(orgId && { [ORG_ID_HEADER]: orgId }),
+    };
+  },
+  // the last chunk then carries the token usage
+  transformRequest(path, body) {
+    return path.startsWith(CHAT_PATH) && body.stream
+      ? { ...body, stream_options: { include_usage: true } }
+      : body;
+  },
+  parseStreamEvent: parseOpenaiStreamEvent,
+};
+
+// the model name becomes a path segment, so dots alone or slashes
+// would reach other azure endpoints with the server key
+const DEPLOYMENT_NAME = /^(?!\.+$)[\w.-]+$/;
+
+// deployments are addressed by name, we use the model name for it
+const azure: ProviderAdapter = {
+  name: Provider.Azure,
+  enabled: !!serverConfig.azureUrl,
+  apiKey: serverConfig.azureApiKey,
+
+  url(path, body) {
+    const baseUrl = trimSlash(withProtocol(serverConfig.azureUrl ?? ""));
+    const apiVersion = `api-version=${serverConfig.azureApiVersion}`;
+    if (path.startsWith(CHAT_PATH) && body?.model) {
+      if (!DEPLOYMENT_NAME.test(body.model)) {
+        throw new Error(`Invalid deployment name ${body.model}`);
+      }
+      const deployment = encodeURIComponent(body.model);
+      return `${baseUrl}/openai/deployments/${deployment}/chat/completions?${apiVersion}`;
+    }
+    const azurePath = path.replace(/^v1\//, "");
+    const separator = azurePath.includes("?") ? "&" : "?";
+    return `${baseUrl}/openai/${azurePath}${separator}${apiVersion}`;
+  },
+  headers(apiKey) {
+    return { "api-key": apiKey };
+  },
+  checkRequest(path, body) {
+    if (
+      path.startsWith(CHAT_PATH) &&
+      body?.model != null &&
+      (typeof body.model !== "string" || !DEPLOYMENT_NAME.test(body.model))
+    ) {
+      return `${body.model} is not a valid deployment name`;
+    }
+  },
+  parseStreamEvent: parseOpenaiStreamEvent,
+};
+
+const compatible: ProviderAdapter = {
+  name: Provider.Compatible,
+  enabled: !!serverConfig.compatibleUrl,
+  apiKey: serverConfig.compatibleApiKey,
+
+  url(path) {
+    const baseUrl = trimSlash(withProtocol(serverConfig.compatibleUrl ?? ""));
+    return `${baseUrl}/${path}`;
+  },
+  headers: bearer,
+  parseStreamEvent(data) {
+    if (data === "[DONE]") {
+      return { done: true };
+    }
+    const json = JSON.parse(data);
+    if (json.error) {
+      throw new Error(
+        typeof json.error === "string"
+          ? json.error
+          : json.error.message ?? "upstream stream error",
+      );
+    }
+    const choice = json.choices?.at(0);
+    // llama.cpp style servers put the text at the top level
+    return {
+      text: choice?.delta?.content ?? json.content ?? "",
+      role: choice?.delta?.role,
+      toolCalls: choice?.delta?.tool_calls,
+      finishReason:
+        choice?.finish_reason ??
+        (json.stop === true
+          ? json.stopped_limit
+            ? "length"
+            : "stop"
+          : undefined),
+      done: json.stop === true,
+    };
+  },
+};
+
+// the messages api takes system prompts apart and wants alternating roles
+function toAnthropicRequest(body: any) {
+  const system: string[] = [];
+  const messages: { role: string; content: string }[] = [];
+
+  for (const message of body.messages ?? []) {
+    if (message.role === "system") {
+      system.push(message.content);
+      continue;
+    }
+    // tools are not translated, their results are passed on as plain text
+    const role = message.role === "tool" ? "user" : message.role;
+    const content = message.content ?? "";
+    if (!content) continue;
+
+    const last = messages.at(-1);
+    if (last && last.role === role) {
+      last.content += `\n\n${content}`;
+    } else {
+      messages.push({ role, content });
+    }
+  }
+
+  return {
+    model: body.model,
+    system: system.join("\n\n") || undefined,
+    messages,
+    max_tokens: body.max_tokens || 1024,
+    temperature:
+      body.temperature != null ? Math.min(1, body.temperature) : undefined,
+    top_p: body.top_p,
+    stop_sequences: body.stop,
+    stream: body.stream,
+  };
+}
+
+function fromAnthropicStopReason(reason?: string): FinishReason | undefined {
+  switch (reason) {
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case undefined:
+    case null:
+      return undefined;
+    default:
+      return "stop";
+  }
+}
+
+function fromAnthropicResponse(body: any) {
+  if (body.error) {
+    return { error: body.error };
+  }
+  const content = (body.content ?? [])
+    .map((block: any) => block.text ?? "")
+    .join("");
+  return {
+    id: body.id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: body.model,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: fromAnthropicStopReason(body.stop_reason),
+      },
+    ],
+    usage: body.usage && {
+      prompt_tokens: body.usage.input_tokens,
+      completion_tokens: body.usage.output_tokens,
+      total_tokens: body.usage.input_tokens + body.usage.output_tokens,
+    },
+  };
+}
+
+const anthropic: ProviderAdapter = {
+  name: Provider.Anthropic,
+  enabled: !!serverConfig.anthropicApiKey,
+  apiKey: serverConfig.anthropicApiKey,
+
+  url(path) {
+    const baseUrl = trimSlash(withProtocol(serverConfig.anthropicUrl));
+    return path.startsWith(CHAT_PATH)
+      ? `${baseUrl}/v1/messages`
+      : `${baseUrl}/${path}`;
+  },
+  headers(apiKey) {
+    return {
+      "x-api-key": apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    };
+  },
+  transformRequest(path, body) {
+    return path.startsWith(CHAT_PATH) ? toAnthropicRequest(body) : body;
+  },
+  transformResponse(path, body) {
+    return path.startsWith(CHAT_PATH) ? fromAnthropicResponse(body) : body;
+  },
+  // https://docs.anthropic.com/claude/reference/messages-streaming
+  parseStreamEvent(data) {
+    const json = JSON.parse(data);
+    switch (json.type) {
+      case "message_start":
+        return {
+          usage: { promptTokens: json.message?.usage?.input_tokens },
+        };
+      case "message_delta":
+        return {
+          finishReason: fromAnthropicStopReason(json.delta?.stop_reason),
+          usage: { completionTokens: json.usage?.output_tokens },
+        };
+      case "content_block_delta":
+        return { text: json.delta?.text ?? "" };
+      case "message_stop":
+        return { done: true };
+      case "error":
+        throw new Error(json.error?.message ?? "anthropic stream error");
+      default:
+        return {};
+    }
+  },
+};
+
+export const PROVIDERS: Record<Provider, ProviderAdapter> = {
+  [Provider.OpenAI]: openai,
+  [Provider.Azure]: azure,
+  [Provider.Anthropic]: anthropic,
+  [Provider.Compatible]: compatible,
+};
+
+export function getProvider(req: NextRequest) {
+  const name = req.headers.get(PROVIDER_HEADER) as Provider;
+  return PROVIDERS[name] ?? openai;
+}
+
+export function getEnabledProviders() {
+  return Object.values(PROVIDERS)
+    .filter((provider) => provider.enabled)
+    .map((provider) => provider.name);
+}
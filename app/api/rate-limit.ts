@@ -0,0 +1,84 @@
+import { getServerSideConfig, RateLimit } from "../config/server";
+
+const serverConfig = getServerSideConfig();
+
+type Bucket = {
+  tokens: number;
+  updated: number;
+};
+
+// full buckets carry no state, drop them once the map grows
+const MAX_BUCKETS = 10000;
+
+// every wrong access code costs a hash, so guesses are limited even without RATE_LIMIT
+const LOGIN_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 10 / 60 };
+
+// several codes can share an ip behind a NAT, the bucket per code and ip is the real limit
+const IP_LIMIT_SCALE = 4;
+
+// kept in memory, so per server instance
+export function createLimiter(getLimit: () => RateLimit | undefined) {
+  const buckets = new Map<string, Bucket>();
+
+  const refill = (bucket: Bucket, limit: RateLimit, now: number) => {
+    bucket.tokens = Math.min(
+      limit.capacity,
+      bucket.tokens + ((now - bucket.updated) / 1000) * limit.refillPerSecond,
+    );
+    bucket.updated = now;
+  };
+
+  const prune = (limit: RateLimit, now: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, limit, now);
+      if (bucket.tokens >= limit.capacity) {
+        buckets.delete(key);
+      }
+    });
+  };
+
+  const getBucket = (key: string, limit: RateLimit, now: number) => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      if (buckets.size >= MAX_BUCKETS) prune(limit, now);
+      bucket = { tokens: limit.capacity, updated: now };
+      buckets.set(key, bucket);
+    }
+    refill(bucket, limit, now);
+    return bucket;
+  };
+
+  // seconds to wait until a request is allowed, without taking one
+  const wait = (key: string, now = Date.now()) => {
+    const limit = getLimit();
+    if (!limit) return 0;
+
+    const bucket = getBucket(key, limit, now);
+    return bucket.tokens < 1
+      ? Math.ceil((1 - bucket.tokens) / limit.refillPerSecond)
+      : 0;
+  };
+
+  // takes one request from the bucket, returns the seconds to wait when empty
+  const take = (key: string, now = Date.now()) => {
+    const retryAfter = wait(key, now);
+    if (retryAfter > 0 || !getLimit()) return retryAfter;
+
+    buckets.get(key)!.tokens -= 1;
+    return 0;
+  };
+
+  return { wait, take };
+}
+
+// checked before auth, so floods are turned away before any code is hashed
+export const ipLimiter = createLimiter(
+  () =>
+    serverConfig.rateLimit && {
+      capacity: serverConfig.rateLimit.capacity * IP_LIMIT_SCALE,
+      refillPerSecond: serverConfig.rateLimit.refillPerSecond * IP_LIMIT_SCALE,
+    },
+);
+// keyed by access code and ip
+export const requestLimiter = createLimiter(() => serverConfig.rateLimit);
+export const loginLimiter = createLimiter(() => LOGIN_LIMIT);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSideConfig } from "../../config/server";
+import { resolveAccess } from "../auth";
+import { isAdmin } from "../access";
+import { policyError } from "../policy";
+import {
+  getUsageStore,
+  groupUsage,
+  startOfDay,
+  startOfMonth,
+  sumUsage,
+  UsageReport,
+} from "../accounting";
+
+const serverConfig = getServerSideConfig();
+
+async function handle(req: NextRequest) {
+  const { entry, error, retryAfter } = await resolveAccess(req);
+  const admin = isAdmin(entry);
+
+  if (error === "rate_limited") {
+    return policyError(
+      error,
+      `Too many wrong access codes, retry in ${retryAfter}s`,
+      429,
+      retryAfter,
+    );
+  }
+
+  if (!entry) {
+    return NextResponse.json(
+      {
+        error: true,
+        code: error,
+        msg: "Usage is only shown for a valid access code",
+      },
+      { status: 401 },
+    );
+  }
+
+  const month = await getUsageStore().list(
+    startOfMonth(),
+    admin ? undefined : entry.id,
+  );
+  const today = month.filter((entry) => entry.time >= startOfDay());
+
+  const report: UsageReport = {
+    today: sumUsage(today),
+    month: sumUsage(month),
+    byModel: groupUsage(month, (entry) => entry.model),
+    // labelled codes by label, plain ones by a short prefix of their hash
+    byCode: admin
+      ? groupUsage(
+          month,
+          (usage) =>
+            serverConfig.codes.find((code) => code.id === usage.key)?.label ??
+            usage.key.slice(0, 8),
+        )
+      : undefined,
+  };
+
+  return NextResponse.json(report);
+}
+
+export const GET = handle;
+export const POST = handle;
+
+// reads the usage file
+export const runtime = "nodejs";
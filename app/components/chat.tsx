@@ -1,5 +1,11 @@
 import { useDebouncedCallback } from "use-debounce";
-import { useState, useRef, useEffect, useLayoutEffect } from "react";
+import {
+  useState,
+  useRef,
+  useEffect,
+  useLayoutEffect,
+  type RefObject,
+} from "react";
 
 import SendWhiteIcon from "../icons/send-white.svg";
 import BrainIcon from "../icons/brain.svg";
@@ -20,6 +26,7 @@ import DarkIcon from "../icons/dark.svg";
 import AutoIcon from "../icons/auto.svg";
 import BottomIcon from "../icons/bottom.svg";
 import StopIcon from "../icons/pause.svg";
+import EyeIcon from "../icons/eye.svg";
 
 import {
   Message,
@@ -34,8 +41,9 @@ import {
   ModelConfig,
   SummaryLevel,
   DEFAULT_TOPIC,
-  countTotalTokens,
   ChatSession,
+  getModelCapability,
+  formatCost,
 } from "../store";
 
 import {
@@ -48,7 +56,18 @@ import {
 
 import dynamic from "next/dynamic";
 
-import { ControllerPool, summarizeMessage } from "../requests";
+import {
+  ControllerPool,
+  makeRequestParam,
+  summarizeMessage,
+  summarizeMessageIncrementally,
+} from "../requests";
+import {
+  countMessageTokens,
+  countSummaryTokens,
+  REPLY_PRIMING_TOKENS,
+} from "../tokenizer";
+import { type ContextReport, dryRunContext } from "../context";
 import { Prompt, usePromptStore } from "../store/prompt";
 import Locale from "../locales";
 
@@ -56,7 +75,7 @@ import { IconButton } from "./button";
 import styles from "./home.module.scss";
 import chatStyle from "./chat.module.scss";
 
-import { ListItem, Modal, showModal } from "./ui-lib";
+import { Input, ListItem, Modal, showModal, showToast } from "./ui-lib";
 import { useLocation, useNavigate } from "react-router-dom";
 import { Path } from "../constant";
 import { Avatar } from "./emoji";
@@ -167,6 +186,220 @@ export function SessionConfigModel(props: { onClose: () => void }) {
   );
 }
 
+export function SummaryReviewModal(props: {
+  message: Message;
+  onClose: () => void;
+}) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const model = session.mask.modelConfig.model;
+  const message = props.message;
+
+  const [instructions, setInstructions] = useState("");
+  const [regenerating, setRegenerating] = useState(false);
+
+  const nTokens = message.nTokens ?? countMessageTokens(message, model);
+  const nSummaryTokens =
+    message.nSummaryTokens ?? countSummaryTokens(message, model);
+
+  const updateSummary = (summary: string) => {
+    chatStore.updateCurrentSession(() => {
+      message.summary = summary;
+      message.nSummaryTokens = countSummaryTokens(message, model);
+    });
+  };
+
+  const regenerate = () => {
+    setRegenerating(true);
+    summarizeMessageIncrementally(message, session, instructions)
+      .then((res) => {
+        // a failed request comes back without a summary
+        if (!res.summary) throw new Error("no summary in the response");
+        updateSummary(res.summary);
+      })
+      .catch((e) => {
+        console.error("[Summary Review] ", e);
+        showToast(Locale.Store.Error);
+      })
+      .finally(() => setRegenerating(false));
+  };
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Chat.SummaryReview.Title}
+        onClose={() => props.onClose()}
+        actions={[
+          <IconButton
+            key="regenerate"
+            icon={regenerating ? <LoadingIcon /> : <ResetIcon />}
+            bordered
+            text={Locale.Chat.SummaryReview.Regenerate}
+            onClick={() => !regenerating && regenerate()}
+          />,
+          <IconButton
+            key="toggle"
+            icon={<BrainIcon />}
+            bordered
+            text={
+              message.useSummary
+                ? Locale.Chat.SummaryReview.UseOriginal
+                : Locale.Chat.SummaryReview.UseSummary
+            }
+            onClick={() =>
+              chatStore.updateCurrentSession(
+                () => (message.useSummary = !message.useSummary),
+              )
+            }
+          />,
+        ]}
+      >
+        <div className={chatStyle["summary-review"]}>
+          <div className={chatStyle["summary-review-columns"]}>
+            <div className={chatStyle["summary-review-column"]}>
+              <div className={chatStyle["section-title"]}>
+                {Locale.Chat.SummaryReview.Original}
+              </div>
+              <div className={chatStyle["summary-review-content"]}>
+                {message.content}
+              </div>
+            </div>
+            <div className={chatStyle["summary-review-column"]}>
+              <div className={chatStyle["section-title"]}>
+                {Locale.Chat.SummaryReview.Summary}
+                <span>
+                  {Locale.Chat.SummaryReview.Savings(nTokens, nSummaryTokens)}
+                </span>
+              </div>
+              <Input
+                value={message.summary ?? ""}
+                className={chatStyle["summary-review-editor"]}
+                onInput={(e) => updateSummary(e.currentTarget.value)}
+              />
+            </div>
+          </div>
+          <Input
+            value={instructions}
+            rows={1}
+            placeholder={Locale.Chat.SummaryReview.Instructions}
+            className={chatStyle["summary-review-instructions"]}
+            onInput={(e) => setInstructions(e.currentTarget.value)}
+          />
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
+export function RequestPreviewModal(props: {
+  userInput: string;
+  onClose: () => void;
+}) {
+  const chatStore = useChatStore();
+  const session = chatStore.currentSession();
+  const modelConfig = session.mask.modelConfig;
+
+  // same assembly as onUserInput
+  const [assembled, setAssembled] = useState<{
+    messages: Message[];
+    report: ContextReport;
+  }>();
+  useEffect(() => {
+    let cancelled = false;
+    const { preamble, history } = chatStore.getMessagesBySummaryLevel();
+    const pending =
+      props.userInput.trim().length > 0
+        ? [createMessage({ role: "user", content: props.userInput })]
+        : [];
+    dryRunContext(session, preamble, [...history, ...pending]).then(
+      (result) => {
+        if (!cancelled) setAssembled(result);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [props.userInput]);
+
+  const request = makeRequestParam(assembled?.messages ?? [], {
+    stream: true,
+    modelConfig,
+  });
+  const report = assembled?.report;
+
+  const counts = request.messages.map((m) =>
+    countMessageTokens(m as Message, request.model),
+  );
+  const nTokens = counts.reduce((a, b) => a + b, REPLY_PRIMING_TOKENS);
+  const { contextWindow } = getModelCapability(request.model);
+  const nTrimmed =
+    (report?.summarizedIds.length ?? 0) + (report?.hiddenIds.length ?? 0);
+  const requestJson = JSON.stringify(request, null, 2);
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Chat.RequestPreview.Title}
+        onClose={() => props.onClose()}
+        actions={[
+          <IconButton
+            key="copy"
+            icon={<CopyIcon />}
+            bordered
+            text={Locale.Chat.RequestPreview.Copy}
+            onClick={() => copyToClipboard(requestJson)}
+          />,
+        ]}
+      >
+        <div className={chatStyle["request-preview"]}>
+          <div className={chatStyle["section-title"]}>
+            {request.model}
+            <span>
+              {Locale.Chat.RequestPreview.Total(nTokens, contextWindow)}
+            </span>
+          </div>
+          {report && nTrimmed > 0 ? (
+            <div className={chatStyle["request-preview-warning"]}>
+              {Locale.Chat.RequestPreview.Trimmed(
+                report.budget,
+                report.summarizedIds.length,
+                report.hiddenIds.length,
+              )}
+            </div>
+          ) : (
+            <></>
+          )}
+          {report && report.nTokens > report.budget ? (
+            <div className={chatStyle["request-preview-warning"]}>
+              {Locale.Chat.RequestPreview.OverBudget(report.budget)}
+            </div>
+          ) : (
+            <></>
+          )}
+          {request.messages.map((m, i) => (
+            <div className={chatStyle["request-preview-message"]} key={i}>
+              <div className={chatStyle["section-title"]}>
+                {m.role}
+                <span>{Locale.Chat.RequestPreview.Tokens(counts[i])}</span>
+              </div>
+              <div className={chatStyle["request-preview-content"]}>
+                {m.content}
+              </div>
+            </div>
+          ))}
+          <div className={chatStyle["section-title"]}>
+            {Locale.Chat.RequestPreview.Payload}
+          </div>
+          <pre className={chatStyle["request-preview-content"]}>
+            {requestJson}
+          </pre>
+        </div>
+      </Modal>
+    </div>
+  );
+}
+
 function PromptToast(props: {
   showToast?: boolean;
   showModal?: boolean;
@@ -197,6 +430,51 @@ function PromptToast(props: {
   );
 }
 
+function formatToolJson(text: string) {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// tool calls and their results are folded, only the tool name shows
+function ToolDetails(props: {
+  message: Message;
+  fontSize: number;
+  parentRef: RefObject<HTMLDivElement>;
+}) {
+  const { message } = props;
+  const entries =
+    message.role === "tool"
+      ? [
+          {
+            title: Locale.Chat.Tool.Result(message.toolName ?? ""),
+            body: message.content,
+          },
+        ]
+      : (message.toolCalls ?? []).map((call) => ({
+          title: Locale.Chat.Tool.Call(call.function.name),
+          body: call.function.arguments,
+        }));
+
+  return (
+    <>
+      {entries.map((entry, i) => (
+        <details key={i} className={chatStyle["tool-details"]}>
+          <summary>{entry.title}</summary>
+          <Markdown
+            content={"```json\n" + formatToolJson(entry.body) + "\n```"}
+            fontSize={props.fontSize}
+            parentRef={props.parentRef}
+            defaultShow
+          />
+        </details>
+      ))}
+    </>
+  );
+}
+
 function useSubmitHandler() {
   const config = useAppConfig();
   const submitKey = config.submitKey;
@@ -321,6 +599,7 @@ export function ChatActions(props: {
   showPromptModal: () => void;
   scrollToBottom: () => void;
   showPromptHints: () => void;
+  showRequestPreview: () => void;
   hitBottom: boolean;
 }) {
   const config = useAppConfig();
@@ -387,6 +666,13 @@ export function ChatActions(props: {
         <PromptIcon />
       </div>
 
+      <div
+        className={`${chatStyle["chat-input-action"]} clickable`}
+        onClick={props.showRequestPreview}
+      >
+        <EyeIcon />
+      </div>
+
       <div
         className={`${chatStyle["chat-input-action"]} clickable`}
         onClick={() => {
@@ -399,6 +685,55 @@ export function ChatActions(props: {
   );
 }
 
+export function SelectActions(props: {
+  selectedIds: number[];
+  progress?: [number, number];
+  onSelectAll: () => void;
+  onHide: (hidden: boolean) => void;
+  onSummarize: () => void;
+  onDelete: () => void;
+  onDone: () => void;
+}) {
+  const noSelection = props.selectedIds.length === 0;
+  const actionClass = `${chatStyle["chat-input-action"]} clickable`;
+
+  return (
+    <div className={chatStyle["chat-input-actions"]}>
+      <div className={chatStyle["chat-input-action"]}>
+        {Locale.Chat.Select.Count(props.selectedIds.length)}
+      </div>
+      <div className={actionClass} onClick={props.onSelectAll}>
+        {Locale.Chat.Select.All}
+      </div>
+      {!noSelection && (
+        <>
+          <div className={actionClass} onClick={() => props.onHide(true)}>
+            {Locale.Chat.Select.Hide}
+          </div>
+          <div className={actionClass} onClick={() => props.onHide(false)}>
+            {Locale.Chat.Select.Show}
+          </div>
+          {props.progress ? (
+            <div className={chatStyle["chat-input-action"]}>
+              {Locale.Chat.Select.Summarizing(...props.progress)}
+            </div>
+          ) : (
+            <div className={actionClass} onClick={props.onSummarize}>
+              {Locale.Chat.Select.Summarize}
+            </div>
+          )}
+          <div className={actionClass} onClick={props.onDelete}>
+            {Locale.Chat.Select.Delete}
+          </div>
+        </>
+      )}
+      <div className={actionClass} onClick={props.onDone}>
+        {Locale.Chat.Select.Done}
+      </div>
+    </div>
+  );
+}
+
 export function Chat() {
   type RenderMessage = Message & { preview?: boolean };
 
@@ -482,10 +817,11 @@ export function Chat() {
   };
 
   // submit user input
-  const onUserSubmit = () => {
+  const onUserSubmit = async () => {
     if (userInput.trim() === "") return;
+    if (!(await confirmContextFits(userInput))) return;
     setIsLoading(true);
-    chatStore.onUserInput(userInput).then(() => setIsLoading(false));
+    chatStore.onUserInput(userInput).finally(() => setIsLoading(false));
     setBeforeInput(userInput);
     setUserInput("");
     setPromptHints([]);
@@ -493,6 +829,19 @@ export function Chat() {
     setAutoScroll(true);
   };
 
+  // older messages are trimmed on send, warn when even the rest does not fit
+  const confirmContextFits = async (content: string) => {
+    const { preamble, history } = chatStore.getMessagesBySummaryLevel();
+    const { report } = await dryRunContext(session, preamble, [
+      ...history,
+      createMessage({ role: "user", content }),
+    ]);
+    return (
+      report.nTokens <= report.budget ||
+      confirm(Locale.Chat.ContextOverflow(report.nTokens, report.budget))
+    );
+  };
+
   // stop response
   const onUserStop = (messageId: number) => {
     ControllerPool.stop(sessionIndex, messageId);
@@ -539,10 +888,19 @@ export function Chat() {
     return lastUserMessageIndex;
   };
 
+  // removes the user message and every reply up to the next one,
+  // tool calls and their results included
   const deleteMessage = (userIndex: number) => {
-    chatStore.updateCurrentSession((session) =>
-      session.messages.splice(userIndex, 2),
-    );
+    chatStore.updateCurrentSession((session) => {
+      let end = userIndex + 1;
+      while (
+        end < session.messages.length &&
+        session.messages[end].role !== "user"
+      ) {
+        end += 1;
+      }
+      session.messages.splice(userIndex, end - userIndex);
+    });
   };
 
   const onDelete = (botMessageId: number) => {
@@ -561,6 +919,56 @@ export function Chat() {
     });
   };
 
+  // multi select, shift click selects a range
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [lastSelectedId, setLastSelectedId] = useState<number>();
+  const [summarizeProgress, setSummarizeProgress] =
+    useState<[number, number]>();
+
+  const onSelectMessage = (message: Message, isRange: boolean) => {
+    const id = message.id;
+    if (id === undefined || !session.messages.includes(message)) return;
+
+    const ids = session.messages.map((m) => m.id ?? -1);
+    if (isRange && lastSelectedId !== undefined) {
+      const from = ids.indexOf(lastSelectedId);
+      const to = ids.indexOf(id);
+      const range = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelectedIds(Array.from(new Set(selectedIds.concat(range))));
+    } else if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter((x) => x !== id));
+    } else {
+      setSelectedIds(selectedIds.concat(id));
+    }
+    setLastSelectedId(id);
+  };
+
+  const startSelecting = (message: Message) => {
+    setSelecting(true);
+    setSelectedIds(message.id !== undefined ? [message.id] : []);
+    setLastSelectedId(message.id);
+  };
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds([]);
+    setLastSelectedId(undefined);
+  };
+
+  const onSummarizeSelected = () => {
+    chatStore
+      .summarizeMessages(selectedIds, (done, total) =>
+        setSummarizeProgress([done, total]),
+      )
+      .finally(() => setSummarizeProgress(undefined));
+  };
+
+  const onDeleteSelected = () => {
+    chatStore.deleteMessages(selectedIds);
+    stopSelecting();
+  };
+
   const onToggleHide = (message: Message, session: ChatSession) => {
     chatStore.updateCurrentSession((session) => {
       message.hidden = !message.hidden;
@@ -571,10 +979,16 @@ export function Chat() {
     if (!message.nTokens) {
       return "";
     }
+    const status = message.interrupted
+      ? `${Locale.Chat.Interrupted} · `
+      : message.truncated
+      ? `${Locale.Chat.Truncated} · `
+      : "";
+    const cost = message.usage ? ` · ${formatCost(message.usage.cost)}` : "";
     if (message.useSummary) {
-      return `${message.nSummaryTokens}/${message.nTokens} tokens`;
+      return `${status}${message.nSummaryTokens}/${message.nTokens} tokens${cost}`;
     } else {
-      return `${message.nTokens} tokens`;
+      return `${status}${message.nTokens} tokens${cost}`;
     }
   };
 
@@ -586,10 +1000,15 @@ export function Chat() {
     setIsLoading(true);
     const content = session.messages[userIndex].content;
     deleteMessage(userIndex);
-    chatStore.onUserInput(content).then(() => setIsLoading(false));
+    chatStore.onUserInput(content).finally(() => setIsLoading(false));
     inputRef.current?.focus();
   };
 
+  const onContinue = (botMessageId: number) => {
+    setIsLoading(true);
+    chatStore.continueMessage(botMessageId).finally(() => setIsLoading(false));
+  };
+
   const context: RenderMessage[] = session.mask.context.slice();
 
   const accessStore = useAccessStore();
@@ -636,6 +1055,8 @@ export function Chat() {
     );
 
   const [showPromptModal, setShowPromptModal] = useState(false);
+  const [reviewingMessage, setReviewingMessage] = useState<Message>();
+  const [showRequestPreview, setShowRequestPreview] = useState(false);
 
   const renameSession = () => {
     const newTopic = prompt(Locale.Chat.Rename, session.topic);
@@ -648,9 +1069,10 @@ export function Chat() {
   const isChat = location.pathname === Path.Chat;
   const autoFocus = !isMobileScreen || isChat; // only focus in chat page
 
-  let [nPromptTokens, nCompletionTokens] = countTotalTokens(messages, session);
-  let percentMem = Math.round(
-    ((nPromptTokens + nCompletionTokens) / (8 * 1024)) * 100,
+  const { contextWindow } = getModelCapability(session.mask.modelConfig.model);
+  // what the last send used, the whole chat is trimmed to fit before sending
+  const percentMem = Math.round(
+    ((session.lastContext?.nTokens ?? 0) / contextWindow) * 100,
   );
 
   return (
@@ -664,7 +1086,7 @@ export function Chat() {
             {!session.topic ? DEFAULT_TOPIC : session.topic}
           </div>
           <div className="window-header-sub-title">
-            {percentMem + "%"} memory usage
+            {Locale.Chat.MemoryUsage(percentMem, contextWindow)}
           </div>
         </div>
         <div className="window-actions">
@@ -716,6 +1138,18 @@ export function Chat() {
           showModal={showPromptModal}
           setShowModal={setShowPromptModal}
         />
+        {showRequestPreview && (
+          <RequestPreviewModal
+            userInput={userInput}
+            onClose={() => setShowRequestPreview(false)}
+          />
+        )}
+        {reviewingMessage && (
+          <SummaryReviewModal
+            message={reviewingMessage}
+            onClose={() => setReviewingMessage(undefined)}
+          />
+        )}
       </div>
 
       <div
@@ -738,7 +1172,18 @@ export function Chat() {
           return (
             <div
               key={i}
-              className={message.hidden ? styles["chat-message-hidden"] : ""}
+              className={
+                (message.hidden ? styles["chat-message-hidden"] : "") +
+                (selecting && selectedIds.includes(message.id ?? -1)
+                  ? " " + styles["chat-message-selected"]
+                  : "")
+              }
+              onClickCapture={(e) => {
+                if (!selecting) return;
+                e.preventDefault();
+                e.stopPropagation();
+                onSelectMessage(message, e.shiftKey);
+              }}
             >
               <div
                 className={
@@ -782,6 +1227,30 @@ export function Chat() {
                             >
                               {message.useSummary ? "Unsummarize" : "Summarize"}
                             </div>
+                            {message.summary ? (
+                              <div
+                                className={styles["chat-message-top-action"]}
+                                onClick={() => setReviewingMessage(message)}
+                              >
+                                {Locale.Chat.Actions.Review}
+                              </div>
+                            ) : null}
+                            <div
+                              className={styles["chat-message-top-action"]}
+                              onClick={() => startSelecting(message)}
+                            >
+                              {Locale.Chat.Actions.Select}
+                            </div>
+                            <div
+                              className={styles["chat-message-top-action"]}
+                              onClick={() =>
+                                chatStore.collapseMessagesBefore(
+                                  message.id ?? i,
+                                )
+                              }
+                            >
+                              {Locale.Chat.Actions.CollapseBefore}
+                            </div>
                             <div
                               className={styles["chat-message-top-action"]}
                               onClick={() => onDelete(message.id ?? i)}
@@ -796,6 +1265,16 @@ export function Chat() {
                                 {Locale.Chat.Actions.Retry}
                               </div>
                             ) : null}
+                            {!isUser &&
+                            (message.truncated || message.interrupted) &&
+                            message.id === session.messages.at(-1)?.id ? (
+                              <div
+                                className={styles["chat-message-top-action"]}
+                                onClick={() => onContinue(message.id ?? i)}
+                              >
+                                {Locale.Chat.Actions.Continue}
+                              </div>
+                            ) : null}
                           </>
                         )}
 
@@ -807,25 +1286,35 @@ export function Chat() {
                         </div>
                       </div>
                     )}
-                    <Markdown
-                      content={
-                        message.useSummary
-                          ? message.summary ?? message.content
-                          : message.content
-                      }
-                      loading={
-                        (message.preview || message.content.length === 0) &&
-                        !isUser
-                      }
-                      onContextMenu={(e) => onRightClick(e, message)}
-                      onDoubleClickCapture={() => {
-                        if (!isMobileScreen) return;
-                        setUserInput(message.content);
-                      }}
-                      fontSize={fontSize}
-                      parentRef={scrollRef}
-                      defaultShow={i >= messages.length - 10}
-                    />
+                    {message.role === "tool" || message.toolCalls ? (
+                      <ToolDetails
+                        message={message}
+                        fontSize={fontSize}
+                        parentRef={scrollRef}
+                      />
+                    ) : null}
+                    {message.role !== "tool" &&
+                    (message.content.length > 0 || !message.toolCalls) ? (
+                      <Markdown
+                        content={
+                          message.useSummary
+                            ? message.summary ?? message.content
+                            : message.content
+                        }
+                        loading={
+                          (message.preview || message.content.length === 0) &&
+                          !isUser
+                        }
+                        onContextMenu={(e) => onRightClick(e, message)}
+                        onDoubleClickCapture={() => {
+                          if (!isMobileScreen) return;
+                          setUserInput(message.content);
+                        }}
+                        fontSize={fontSize}
+                        parentRef={scrollRef}
+                        defaultShow={i >= messages.length - 10}
+                      />
+                    ) : null}
                   </div>
                   {!message.preview ? (
                     <div className={styles["chat-message-actions"]}>
@@ -844,15 +1333,30 @@ export function Chat() {
       <div className={styles["chat-input-panel"]}>
         <PromptHints prompts={promptHints} onPromptSelect={onPromptSelect} />
 
-        <ChatActions
-          showPromptModal={() => setShowPromptModal(true)}
-          scrollToBottom={scrollToBottom}
-          hitBottom={hitBottom}
-          showPromptHints={() => {
-            inputRef.current?.focus();
-            onSearch("");
-          }}
-        />
+        {selecting ? (
+          <SelectActions
+            selectedIds={selectedIds}
+            progress={summarizeProgress}
+            onSelectAll={() =>
+              setSelectedIds(session.messages.map((m) => m.id ?? -1))
+            }
+            onHide={(hidden) => chatStore.hideMessages(selectedIds, hidden)}
+            onSummarize={onSummarizeSelected}
+            onDelete={onDeleteSelected}
+            onDone={stopSelecting}
+          />
+        ) : (
+          <ChatActions
+            showPromptModal={() => setShowPromptModal(true)}
+            scrollToBottom={scrollToBottom}
+            hitBottom={hitBottom}
+            showPromptHints={() => {
+              inputRef.current?.focus();
+              onSearch("");
+            }}
+            showRequestPreview={() => setShowRequestPreview(true)}
+          />
+        )}
         <div className={styles["chat-input-panel-inner"]}>
           <textarea
             ref={inputRef}
@@ -4,37 +4,187 @@ import {
   SummaryLevel,
   ModalConfigValidator,
   ModelConfig,
+  ModelType,
+  getModelCapability,
+  ModelInfo,
+  useAccessStore,
+  useModelListStore,
 } from "../store";
+import { Provider } from "../constant";
 
 import Locale from "../locales";
 import { InputRange } from "./input-range";
-import { List, ListItem } from "./ui-lib";
+import { Input, List, ListItem, showToast } from "./ui-lib";
+import { useEffect, useState } from "react";
+import { listTools } from "../tools";
+
+function ModelSelect(props: {
+  // what the connection offers, empty when it could not be listed
+  models: ModelInfo[];
+  value: ModelType;
+  onChange: (model: ModelType) => void;
+}) {
+  if (props.models.length === 0) {
+    return (
+      <input
+        type="text"
+        list="model-names"
+        value={props.value}
+        onChange={(e) => props.onChange(e.currentTarget.value as ModelType)}
+        onBlur={(e) =>
+          props.onChange(ModalConfigValidator.model(e.currentTarget.value))
+        }
+      ></input>
+    );
+  }
+
+  // keep showing a model that is no longer listed instead of switching it
+  const models = props.models.some((m) => m.name === props.value)
+    ? props.models
+    : [{ name: props.value, available: false }, ...props.models];
+
+  return (
+    <select
+      value={props.value}
+      onChange={(e) =>
+        props.onChange(
+          ModalConfigValidator.model(e.currentTarget.value, props.models),
+        )
+      }
+    >
+      {models.map((v) => (
+        <option value={v.name} key={v.name} disabled={!v.available}>
+          {v.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// edited as json text, only applied once it parses
+function LogitBiasInput(props: {
+  value: Record<string, number>;
+  onChange: (bias: Record<string, number>) => void;
+}) {
+  const [text, setText] = useState(
+    Object.keys(props.value).length > 0 ? JSON.stringify(props.value) : "",
+  );
+
+  return (
+    <Input
+      rows={1}
+      value={text}
+      placeholder='{"50256": -100}'
+      onInput={(e) => setText(e.currentTarget.value)}
+      onBlur={() => {
+        try {
+          const bias = ModalConfigValidator.logit_bias(
+            text.trim() ? JSON.parse(text) : {},
+          );
+          props.onChange(bias);
+          setText(Object.keys(bias).length > 0 ? JSON.stringify(bias) : "");
+        } catch {
+          showToast(Locale.Settings.LogitBias.Invalid);
+        }
+      }}
+    ></Input>
+  );
+}
 
 export function ModelConfigList(props: {
   modelConfig: ModelConfig;
   updateConfig: (updater: (config: ModelConfig) => void) => void;
 }) {
+  const accessStore = useAccessStore();
+  const providers = accessStore.providers;
+  const modelListStore = useModelListStore();
+  const { provider, profileId } = props.modelConfig;
+  const models = modelListStore.getModels({ provider, profileId });
+
+  useEffect(() => {
+    modelListStore.fetchModels({ provider, profileId });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [provider, profileId]);
+
+  const tools = listTools();
+
   return (
     <>
-      <ListItem title={Locale.Settings.Model}>
+      <datalist id="model-names">
+        {ALL_MODELS.map((v) => (
+          <option value={v.name} key={v.name} />
+        ))}
+      </datalist>
+      <ListItem
+        title={Locale.Settings.Provider.Title}
+        subTitle={Locale.Settings.Provider.SubTitle}
+      >
         <select
-          value={props.modelConfig.model}
+          value={props.modelConfig.provider}
+          onChange={(e) => {
+            const provider = e.currentTarget.value as Provider;
+            props.updateConfig((config) => (config.provider = provider));
+          }}
+        >
+          {Object.values(Provider).map((provider) => (
+            <option
+              value={provider}
+              key={provider}
+              disabled={!providers.includes(provider)}
+            >
+              {Locale.Settings.Provider.Name[provider]}
+            </option>
+          ))}
+        </select>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.Profile.Title}
+        subTitle={Locale.Settings.Profile.SubTitle}
+      >
+        <select
+          value={props.modelConfig.profileId ?? ""}
           onChange={(e) => {
+            const value = e.currentTarget.value;
             props.updateConfig(
-              (config) =>
-                (config.model = ModalConfigValidator.model(
-                  e.currentTarget.value,
-                )),
+              (config) => (config.profileId = value ? Number(value) : null),
             );
           }}
         >
-          {ALL_MODELS.map((v) => (
-            <option value={v.name} key={v.name} disabled={!v.available}>
-              {v.name}
+          <option value="">{Locale.Settings.Profile.Default}</option>
+          {accessStore.profiles.map((profile) => (
+            <option value={profile.id} key={profile.id}>
+              {profile.name}
             </option>
           ))}
         </select>
       </ListItem>
+      <ListItem title={Locale.Settings.Model}>
+        <ModelSelect
+          models={models}
+          value={props.modelConfig.model}
+          onChange={(model) =>
+            props.updateConfig((config) => {
+              config.model = model;
+              config.max_tokens = ModalConfigValidator.max_tokens(
+                config.max_tokens,
+                model,
+              );
+            })
+          }
+        />
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.TopicModel.Title}
+        subTitle={Locale.Settings.TopicModel.SubTitle}
+      >
+        <ModelSelect
+          models={models}
+          value={props.modelConfig.topicModel}
+          onChange={(model) =>
+            props.updateConfig((config) => (config.topicModel = model))
+          }
+        />
+      </ListItem>
       <ListItem title={Locale.Settings.SummaryLevel}>
         <select
           value={props.modelConfig.summaryLevel}
@@ -46,12 +196,139 @@ export function ModelConfigList(props: {
           }}
         >
           {Object.entries(SummaryLevel).map(([key, value]) => (
-            <option key={key} value={key}>
-              {value}
+            <option key={key} value={value}>
+              {key}
             </option>
           ))}
         </select>
       </ListItem>
+      {props.modelConfig.summaryLevel !== SummaryLevel.NoSummary && (
+        <>
+          <ListItem
+            title={Locale.Settings.SummaryModel.Title}
+            subTitle={Locale.Settings.SummaryModel.SubTitle}
+          >
+            <ModelSelect
+              models={models}
+              value={props.modelConfig.summaryModel}
+              onChange={(model) =>
+                props.updateConfig((config) => (config.summaryModel = model))
+              }
+            />
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.SummaryTargetLength.Title}
+            subTitle={Locale.Settings.SummaryTargetLength.SubTitle}
+          >
+            <input
+              type="number"
+              min={0}
+              max={1000}
+              value={props.modelConfig.summaryTargetLength}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.summaryTargetLength =
+                      ModalConfigValidator.summaryTargetLength(
+                        e.currentTarget.valueAsNumber,
+                      )),
+                )
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.SummaryInstructions.Title}
+            subTitle={Locale.Settings.SummaryInstructions.SubTitle}
+          >
+            <Input
+              value={props.modelConfig.summaryInstructions}
+              rows={2}
+              placeholder={Locale.Settings.SummaryInstructions.Placeholder}
+              onInput={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.summaryInstructions = e.currentTarget.value),
+                )
+              }
+            ></Input>
+          </ListItem>
+        </>
+      )}
+      {props.modelConfig.summaryLevel === SummaryLevel.Incremental && (
+        <>
+          <ListItem
+            title={Locale.Settings.AutoSummarize.Title}
+            subTitle={Locale.Settings.AutoSummarize.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={props.modelConfig.autoSummarize}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) => (config.autoSummarize = e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.AutoSummarize.MinTokens.Title}
+            subTitle={Locale.Settings.AutoSummarize.MinTokens.SubTitle}
+          >
+            <input
+              type="number"
+              min={0}
+              max={4000}
+              value={props.modelConfig.autoSummarizeMinTokens}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.autoSummarizeMinTokens =
+                      ModalConfigValidator.autoSummarizeMinTokens(
+                        e.currentTarget.valueAsNumber,
+                      )),
+                )
+              }
+            ></input>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.AutoSummarize.KeepTurns.Title}
+            subTitle={Locale.Settings.AutoSummarize.KeepTurns.SubTitle}
+          >
+            <InputRange
+              title={props.modelConfig.autoSummarizeKeepTurns.toString()}
+              value={props.modelConfig.autoSummarizeKeepTurns}
+              min="0"
+              max="20"
+              step="1"
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.autoSummarizeKeepTurns =
+                      ModalConfigValidator.autoSummarizeKeepTurns(
+                        e.currentTarget.valueAsNumber,
+                      )),
+                )
+              }
+            ></InputRange>
+          </ListItem>
+          <ListItem
+            title={Locale.Settings.AutoSummarize.UserMessages.Title}
+            subTitle={Locale.Settings.AutoSummarize.UserMessages.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={props.modelConfig.autoSummarizeUserMessages}
+              onChange={(e) =>
+                props.updateConfig(
+                  (config) =>
+                    (config.autoSummarizeUserMessages =
+                      e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </ListItem>
+        </>
+      )}
       <ListItem
         title={Locale.Settings.Temperature.Title}
         subTitle={Locale.Settings.Temperature.SubTitle}
@@ -78,13 +355,14 @@ export function ModelConfigList(props: {
         <input
           type="number"
           min={100}
-          max={32000}
+          max={getModelCapability(props.modelConfig.model).maxOutput}
           value={props.modelConfig.max_tokens}
           onChange={(e) =>
             props.updateConfig(
               (config) =>
                 (config.max_tokens = ModalConfigValidator.max_tokens(
                   e.currentTarget.valueAsNumber,
+                  config.model,
                 )),
             )
           }
@@ -110,6 +388,168 @@ export function ModelConfigList(props: {
           }}
         ></InputRange>
       </ListItem>
+      <ListItem
+        title={Locale.Settings.FrequencyPenalty.Title}
+        subTitle={Locale.Settings.FrequencyPenalty.SubTitle}
+      >
+        <InputRange
+          value={props.modelConfig.frequency_penalty?.toFixed(1)}
+          min="-2"
+          max="2"
+          step="0.1"
+          onChange={(e) => {
+            props.updateConfig(
+              (config) =>
+                (config.frequency_penalty =
+                  ModalConfigValidator.frequency_penalty(
+                    e.currentTarget.valueAsNumber,
+                  )),
+            );
+          }}
+        ></InputRange>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.TopP.Title}
+        subTitle={Locale.Settings.TopP.SubTitle}
+      >
+        <InputRange
+          value={props.modelConfig.top_p?.toFixed(2)}
+          min="0"
+          max="1"
+          step="0.05"
+          onChange={(e) => {
+            props.updateConfig(
+              (config) =>
+                (config.top_p = ModalConfigValidator.top_p(
+                  e.currentTarget.valueAsNumber,
+                )),
+            );
+          }}
+        ></InputRange>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.N.Title}
+        subTitle={Locale.Settings.N.SubTitle}
+      >
+        <input
+          type="number"
+          min={1}
+          max={10}
+          value={props.modelConfig.n}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.n = ModalConfigValidator.n(
+                  e.currentTarget.valueAsNumber,
+                )),
+            )
+          }
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.Seed.Title}
+        subTitle={Locale.Settings.Seed.SubTitle}
+      >
+        <input
+          type="number"
+          placeholder={Locale.Settings.Seed.Placeholder}
+          value={props.modelConfig.seed ?? ""}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.seed = ModalConfigValidator.seed(
+                  e.currentTarget.valueAsNumber,
+                )),
+            )
+          }
+        ></input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.Stop.Title}
+        subTitle={Locale.Settings.Stop.SubTitle}
+      >
+        <Input
+          rows={2}
+          value={props.modelConfig.stop.join("\n")}
+          onInput={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.stop = ModalConfigValidator.stop(
+                  e.currentTarget.value.split("\n"),
+                )),
+            )
+          }
+        ></Input>
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.LogitBias.Title}
+        subTitle={Locale.Settings.LogitBias.SubTitle}
+      >
+        <LogitBiasInput
+          value={props.modelConfig.logit_bias}
+          onChange={(bias) =>
+            props.updateConfig((config) => (config.logit_bias = bias))
+          }
+        />
+      </ListItem>
+      <ListItem
+        title={Locale.Settings.ResponseFormat.Title}
+        subTitle={Locale.Settings.ResponseFormat.SubTitle}
+      >
+        <select
+          value={props.modelConfig.response_format}
+          onChange={(e) =>
+            props.updateConfig(
+              (config) =>
+                (config.response_format = ModalConfigValidator.response_format(
+                  e.currentTarget.value,
+                )),
+            )
+          }
+        >
+          <option value="text">text</option>
+          <option value="json_object">json_object</option>
+        </select>
+      </ListItem>
+
+      {tools.length > 0 ? (
+        <ListItem
+          title={Locale.Settings.Tools.Title}
+          subTitle={Locale.Settings.Tools.SubTitle}
+        >
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "flex-end",
+              gap: 5,
+            }}
+          >
+            {tools.map((tool) => (
+              <label
+                key={tool.name}
+                title={tool.description}
+                style={{ display: "flex", alignItems: "center", gap: 5 }}
+              >
+                {tool.title ?? tool.name}
+                <input
+                  type="checkbox"
+                  checked={props.modelConfig.tools.includes(tool.name)}
+                  onChange={(e) => {
+                    const checked = e.currentTarget.checked;
+                    props.updateConfig(
+                      (config) =>
+                        (config.tools = checked
+                          ? [...config.tools, tool.name]
+                          : config.tools.filter((name) => name !== tool.name)),
+                    );
+                  }}
+                ></input>
+              </label>
+            ))}
+          </div>
+        </ListItem>
+      ) : null}
 
       <ListItem
         title={Locale.Settings.HistoryCount.Title}
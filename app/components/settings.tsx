@@ -22,6 +22,12 @@ import {
   useUpdateStore,
   useAccessStore,
   useAppConfig,
+  useCostStore,
+  sumCost,
+  groupCost,
+  formatCost,
+  startOfDay,
+  startOfMonth,
 } from "../store";
 
 import Locale, { AllLangs, changeLang, getLang } from "../locales";
@@ -33,6 +39,7 @@ import { ErrorBoundary } from "./error";
 import { InputRange } from "./input-range";
 import { useNavigate } from "react-router-dom";
 import { Avatar, AvatarPicker } from "./emoji";
+import type { UsageReport, UsageTotal } from "../api/accounting";
 
 function EditPromptModal(props: { id: number; onClose: () => void }) {
   const promptStore = usePromptStore();
@@ -185,6 +192,251 @@ function UserPromptModal(props: { onClose?: () => void }) {
   );
 }
 
+function ConnectionProfilesModal(props: { onClose?: () => void }) {
+  const accessStore = useAccessStore();
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Settings.Profile.Modal.Title}
+        onClose={() => props.onClose?.()}
+        actions={[
+          <IconButton
+            key="add"
+            onClick={() => accessStore.addProfile()}
+            icon={<AddIcon />}
+            bordered
+            text={Locale.Settings.Profile.Modal.Add}
+          />,
+        ]}
+      >
+        {accessStore.profiles.map((profile) => (
+          <List key={profile.id}>
+            <ListItem title={Locale.Settings.Profile.Name}>
+              <input
+                type="text"
+                value={profile.name}
+                onInput={(e) =>
+                  accessStore.updateProfile(
+                    profile.id,
+                    (p) => (p.name = e.currentTarget.value),
+                  )
+                }
+              ></input>
+            </ListItem>
+            <ListItem
+              title={Locale.Settings.Profile.Url.Title}
+              subTitle={Locale.Settings.Profile.Url.SubTitle}
+            >
+              <input
+                type="text"
+                value={profile.url}
+                onInput={(e) =>
+                  accessStore.updateProfile(
+                    profile.id,
+                    (p) => (p.url = e.currentTarget.value),
+                  )
+                }
+              ></input>
+            </ListItem>
+            {!accessStore.hideUserApiKey ? (
+              <ListItem
+                title={Locale.Settings.Token.Title}
+                subTitle={Locale.Settings.Token.SubTitle}
+              >
+                <PasswordInput
+                  value={profile.token}
+                  type="text"
+                  placeholder={Locale.Settings.Token.Placeholder}
+                  onChange={(e) =>
+                    accessStore.updateProfile(
+                      profile.id,
+                      (p) => (p.token = e.currentTarget.value),
+                    )
+                  }
+                />
+              </ListItem>
+            ) : null}
+            <ListItem title={Locale.Settings.Profile.OrgId}>
+              <input
+                type="text"
+                value={profile.orgId}
+                onInput={(e) =>
+                  accessStore.updateProfile(
+                    profile.id,
+                    (p) => (p.orgId = e.currentTarget.value),
+                  )
+                }
+              ></input>
+            </ListItem>
+            <ListItem
+              title={Locale.Settings.Profile.Models.Title}
+              subTitle={Locale.Settings.Profile.Models.SubTitle}
+            >
+              <input
+                type="text"
+                defaultValue={profile.models.join(", ")}
+                placeholder={Locale.Settings.Profile.Models.Placeholder}
+                onBlur={(e) =>
+                  accessStore.updateProfile(
+                    profile.id,
+                    (p) =>
+                      (p.models = e.currentTarget.value
+                        .split(",")
+                        .map((m) => m.trim())
+                        .filter((m) => m.length > 0)),
+                  )
+                }
+              ></input>
+            </ListItem>
+            {accessStore.profiles.length > 1 ? (
+              <ListItem title={Locale.Settings.Profile.Delete}>
+                <IconButton
+                  icon={<ClearIcon />}
+                  onClick={() => accessStore.deleteProfile(profile.id)}
+                />
+              </ListItem>
+            ) : null}
+          </List>
+        ))}
+      </Modal>
+    </div>
+  );
+}
+
+function UsageList(props: {
+  title: string;
+  totals: Record<string, UsageTotal>;
+}) {
+  return (
+    <List>
+      {[
+        <ListItem key="" title={props.title} />,
+        ...Object.entries(props.totals).map(([name, total]) => (
+          <ListItem
+            key={name}
+            title={name}
+            subTitle={Locale.Settings.Usage.Requests(total.requests)}
+          >
+            <div>
+              {Locale.Settings.Usage.Tokens(
+                total.promptTokens,
+                total.completionTokens,
+              )}
+            </div>
+          </ListItem>
+        )),
+      ]}
+    </List>
+  );
+}
+
+function SpendList(props: {
+  title: string;
+  costs: Record<string, number>;
+  // shown instead of the group key, e.g. a chat topic for its id
+  labels?: Record<string, string>;
+}) {
+  return (
+    <List>
+      {[
+        <ListItem key="" title={props.title} />,
+        ...Object.entries(props.costs)
+          .sort(([, a], [, b]) => b - a)
+          .map(([name, cost]) => (
+            <ListItem key={name} title={props.labels?.[name] ?? name}>
+              <div>{formatCost(cost)}</div>
+            </ListItem>
+          )),
+      ]}
+    </List>
+  );
+}
+
+function SpendModal(props: { onClose?: () => void }) {
+  const costStore = useCostStore();
+  const entries = costStore.since(startOfMonth());
+
+  // chats are told apart by id, a renamed chat shows its current topic
+  const sessions = useChatStore((state) => state.sessions);
+  const topics: Record<string, string> = {};
+  for (const entry of entries) {
+    const id = String(entry.sessionId);
+    topics[id] =
+      sessions.find((s) => s.id === entry.sessionId)?.topic ??
+      entry.topic ??
+      id;
+  }
+
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Settings.Spend.Modal.Title}
+        onClose={() => props.onClose?.()}
+        actions={[
+          <IconButton
+            key="clear"
+            icon={<ClearIcon />}
+            bordered
+            text={Locale.Settings.Spend.Modal.Clear}
+            onClick={() => {
+              if (confirm(Locale.Settings.Spend.Modal.ConfirmClear)) {
+                costStore.clear();
+              }
+            }}
+          />,
+        ]}
+      >
+        <>
+          <SpendList
+            title={Locale.Settings.Spend.Modal.ByDay}
+            costs={groupCost(entries, (e) =>
+              new Date(e.day).toLocaleDateString(),
+            )}
+          />
+          <SpendList
+            title={Locale.Settings.Spend.Modal.BySession}
+            costs={groupCost(entries, (e) => String(e.sessionId))}
+            labels={topics}
+          />
+          <SpendList
+            title={Locale.Settings.Spend.Modal.ByMask}
+            costs={groupCost(entries, (e) => e.mask)}
+          />
+          <SpendList
+            title={Locale.Settings.Spend.Modal.ByModel}
+            costs={groupCost(entries, (e) => e.model)}
+          />
+        </>
+      </Modal>
+    </div>
+  );
+}
+
+function UsageModal(props: { usage: UsageReport; onClose?: () => void }) {
+  return (
+    <div className="modal-mask">
+      <Modal
+        title={Locale.Settings.Usage.Modal.Title}
+        onClose={() => props.onClose?.()}
+      >
+        <>
+          <UsageList
+            title={Locale.Settings.Usage.Modal.ByModel}
+            totals={props.usage.byModel}
+          />
+          {props.usage.byCode ? (
+            <UsageList
+              title={Locale.Settings.Usage.Modal.ByCode}
+              totals={props.usage.byCode}
+            />
+          ) : null}
+        </>
+      </Modal>
+    </div>
+  );
+}
+
 function formatVersionDate(t: string) {
   const d = new Date(+t);
   const year = d.getUTCFullYear();
@@ -228,10 +480,15 @@ export function Settings() {
     );
   }
 
-  const usage = {
-    used: updateStore.used,
-    subscription: updateStore.subscription,
-  };
+  const usage = updateStore.usage;
+  const [shouldShowUsageModal, setShowUsageModal] = useState(false);
+
+  const costStore = useCostStore();
+  const spendToday = sumCost(costStore.since(startOfDay()));
+  const spendMonth = sumCost(costStore.since(startOfMonth()));
+  const overBudget =
+    config.monthlyBudget > 0 && spendMonth >= config.monthlyBudget;
+  const [shouldShowSpendModal, setShowSpendModal] = useState(false);
   const [loadingUsage, setLoadingUsage] = useState(false);
   function checkUsage(force = false) {
     setLoadingUsage(true);
@@ -251,6 +508,7 @@ export function Settings() {
   const builtinCount = SearchService.count.builtin;
   const customCount = promptStore.getUserPrompts().length ?? 0;
   const [shouldShowPromptModal, setShowPromptModal] = useState(false);
+  const [shouldShowProfilesModal, setShowProfilesModal] = useState(false);
 
   const showUsage = accessStore.isAuthorized();
   useEffect(() => {
@@ -490,21 +748,80 @@ export function Settings() {
             <></>
           )}
 
-          {!accessStore.hideUserApiKey ? (
-            <ListItem
-              title={Locale.Settings.Token.Title}
-              subTitle={Locale.Settings.Token.SubTitle}
-            >
-              <PasswordInput
-                value={accessStore.token}
-                type="text"
-                placeholder={Locale.Settings.Token.Placeholder}
-                onChange={(e) => {
-                  accessStore.updateToken(e.currentTarget.value);
-                }}
+          <ListItem
+            title={Locale.Settings.Profile.Title}
+            subTitle={Locale.Settings.Profile.SubTitle}
+          >
+            <div style={{ display: "flex", gap: 10 }}>
+              <select
+                value={accessStore.currentProfileId}
+                onChange={(e) =>
+                  accessStore.selectProfile(Number(e.currentTarget.value))
+                }
+              >
+                {accessStore.profiles.map((profile) => (
+                  <option value={profile.id} key={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+              <IconButton
+                icon={<EditIcon />}
+                text={Locale.Settings.Profile.Edit}
+                onClick={() => setShowProfilesModal(true)}
               />
-            </ListItem>
-          ) : null}
+            </div>
+          </ListItem>
+
+          <ListItem
+            title={Locale.Settings.Timeouts.Title}
+            subTitle={Locale.Settings.Timeouts.SubTitle}
+          >
+            <div style={{ display: "flex", gap: 10 }}>
+              {(["connectTimeout", "idleTimeout", "totalTimeout"] as const).map(
+                (key) => (
+                  <input
+                    key={key}
+                    type="number"
+                    min={key === "totalTimeout" ? 0 : 1}
+                    style={{ width: 60 }}
+                    title={Locale.Settings.Timeouts[key]}
+                    value={config[key]}
+                    onChange={(e) =>
+                      updateConfig(
+                        (config) =>
+                          (config[key] = Math.max(
+                            key === "totalTimeout" ? 0 : 1,
+                            e.currentTarget.valueAsNumber || 0,
+                          )),
+                      )
+                    }
+                  ></input>
+                ),
+              )}
+            </div>
+          </ListItem>
+
+          <ListItem
+            title={Locale.Settings.Retries.Title}
+            subTitle={Locale.Settings.Retries.SubTitle}
+          >
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={config.requestRetries}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.requestRetries = Math.min(
+                      5,
+                      Math.max(0, e.currentTarget.valueAsNumber || 0),
+                    )),
+                )
+              }
+            ></input>
+          </ListItem>
 
           <ListItem
             title={Locale.Settings.Usage.Title}
@@ -512,22 +829,72 @@ export function Settings() {
               showUsage
                 ? loadingUsage
                   ? Locale.Settings.Usage.IsChecking
-                  : Locale.Settings.Usage.SubTitle(
-                      usage?.used ?? "[?]",
-                      usage?.subscription ?? "[?]",
+                  : usage
+                  ? Locale.Settings.Usage.SubTitle(
+                      usage.today.promptTokens + usage.today.completionTokens,
+                      usage.month.promptTokens + usage.month.completionTokens,
                     )
+                  : Locale.Settings.Usage.Empty
                 : Locale.Settings.Usage.NoAccess
             }
           >
             {!showUsage || loadingUsage ? (
               <div />
             ) : (
-              <IconButton
-                icon={<ResetIcon></ResetIcon>}
-                text={Locale.Settings.Usage.Check}
-                onClick={() => checkUsage(true)}
-              />
+              <div style={{ display: "flex", gap: 10 }}>
+                {usage ? (
+                  <IconButton
+                    icon={<EyeIcon />}
+                    text={Locale.Settings.Usage.Details}
+                    onClick={() => setShowUsageModal(true)}
+                  />
+                ) : null}
+                <IconButton
+                  icon={<ResetIcon></ResetIcon>}
+                  text={Locale.Settings.Usage.Check}
+                  onClick={() => checkUsage(true)}
+                />
+              </div>
+            )}
+          </ListItem>
+
+          <ListItem
+            title={Locale.Settings.Spend.Title}
+            subTitle={Locale.Settings.Spend.SubTitle(
+              formatCost(spendToday),
+              formatCost(spendMonth),
             )}
+          >
+            <IconButton
+              icon={<EyeIcon />}
+              text={Locale.Settings.Usage.Details}
+              onClick={() => setShowSpendModal(true)}
+            />
+          </ListItem>
+
+          <ListItem
+            title={Locale.Settings.Spend.Budget.Title}
+            subTitle={
+              overBudget
+                ? Locale.Settings.Spend.Budget.Over
+                : Locale.Settings.Spend.Budget.SubTitle
+            }
+          >
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={config.monthlyBudget}
+              onChange={(e) =>
+                updateConfig(
+                  (config) =>
+                    (config.monthlyBudget = Math.max(
+                      0,
+                      e.currentTarget.valueAsNumber || 0,
+                    )),
+                )
+              }
+            ></input>
           </ListItem>
         </List>
 
@@ -577,6 +944,20 @@ export function Settings() {
         {shouldShowPromptModal && (
           <UserPromptModal onClose={() => setShowPromptModal(false)} />
         )}
+
+        {shouldShowSpendModal && (
+          <SpendModal onClose={() => setShowSpendModal(false)} />
+        )}
+
+        {shouldShowUsageModal && usage && (
+          <UsageModal usage={usage} onClose={() => setShowUsageModal(false)} />
+        )}
+
+        {shouldShowProfilesModal && (
+          <ConnectionProfilesModal
+            onClose={() => setShowProfilesModal(false)}
+          />
+        )}
       </div>
     </ErrorBoundary>
   );
@@ -4,27 +4,148 @@ declare global {
   namespace NodeJS {
     interface ProcessEnv {
       OPENAI_API_KEY?: string;
-      CODE?: string;
+      CODE?: string; // comma separated plain codes, prefer ACCESS_CODES
+      ACCESS_CODES?: string; // json, list of AccessCodeEntry without the id
+      SESSION_SECRET?: string; // signs session tokens, random per start if unset
+      SESSION_TTL?: string; // minutes a session token is valid
       PROXY_URL?: string;
       VERCEL?: string;
       HIDE_USER_API_KEY?: string; // disable user's api key input
+
+      AZURE_URL?: string; // https://{resource}.openai.azure.com
+      AZURE_API_KEY?: string;
+      AZURE_API_VERSION?: string;
+
+      ANTHROPIC_URL?: string;
+      ANTHROPIC_API_KEY?: string;
+
+      COMPATIBLE_URL?: string; // any openai-compatible server, e.g. a local one
+      COMPATIBLE_API_KEY?: string;
+
+      PROXY_ALLOWED_PATHS?: string; // comma separated "METHOD path", "*" matches the rest
+      ALLOWED_MODELS?: string; // comma separated, empty allows every model
+      CODE_POLICIES?: string; // json, access code (or "*") to CodePolicy
+
+      USAGE_STORE?: "file" | "memory";
+      USAGE_FILE?: string;
+      USAGE_ADMIN_CODE?: string; // sees the usage of every access code
+
+      RATE_LIMIT?: string; // "<requests>/<seconds>" per access code and ip
+      RATE_LIMIT_BURST?: string; // requests allowed at once, defaults to the limit
+
+      LOG_LEVEL?: "debug" | "info" | "warn" | "error";
+      LOG_FORMAT?: "text" | "json";
     }
   }
 }
 
-const ACCESS_CODES = (function getAccessCodes(): Set<string> {
-  const code = process.env.CODE;
+export type AccessCodeEntry = {
+  // keys usage records and policies, md5 of the label or of a plain code
+  id: string;
+  label?: string;
+  // "scrypt$<salt>$<key>" in hex, or "md5$<hash>" for plain CODE values
+  hash: string;
+  // ms timestamp, codes past it are rejected
+  expires?: number;
+  // only the USAGE_ADMIN_CODE entry, never read from the env
+  admin?: boolean;
+};
+
+const ACCESS_CODES = (function getAccessCodes(): AccessCodeEntry[] {
+  const plain = (process.env.CODE?.split(",") ?? [])
+    .map((v) => v.trim())
+    .filter((v) => !!v)
+    .map((v) => {
+      const hash = md5.hash(v);
+      return { id: hash, hash: `md5$${hash}` };
+    });
 
   try {
-    const codes = (code?.split(",") ?? [])
-      .filter((v) => !!v)
-      .map((v) => md5.hash(v.trim()));
-    return new Set(codes);
+    const hashed = (
+      JSON.parse(process.env.ACCESS_CODES || "[]") as {
+        label: string;
+        hash: string;
+        expires?: string;
+      }[]
+    ).map((entry) => ({
+      id: md5.hash(entry.label),
+      label: entry.label,
+      hash: entry.hash,
+      expires: entry.expires ? new Date(entry.expires).getTime() : undefined,
+    }));
+    return [...plain, ...hashed];
   } catch (e) {
-    return new Set();
+    console.error("[Server Config] invalid ACCESS_CODES", e);
+    return plain;
   }
 })();
 
+// limits for requests made with an access code, unset fields do not limit
+export type CodePolicy = {
+  models?: string[];
+  maxTokens?: number; // per request
+  dailyTokens?: number;
+  requestsPerMinute?: number;
+};
+
+// keyed by hashed access code or label, "*" applies to codes without their own
+const CODE_POLICIES = (function getCodePolicies(): Map<string, CodePolicy> {
+  try {
+    const policies = JSON.parse(process.env.CODE_POLICIES || "{}") as Record<
+      string,
+      CodePolicy
+    >;
+    return new Map(
+      Object.entries(policies).map(([code, policy]) => [
+        code === "*" ? code : md5.hash(code.trim()),
+        policy,
+      ]),
+    );
+  } catch (e) {
+    console.error("[Server Config] invalid CODE_POLICIES", e);
+    return new Map();
+  }
+})();
+
+export type ProxyRoute = {
+  method: string;
+  path: string;
+};
+
+// only what the chat itself needs, files, fine-tunes or billing stay closed
+const DEFAULT_PROXY_PATHS = "POST v1/chat/completions,GET v1/models";
+
+const PROXY_ALLOWED_PATHS = (
+  process.env.PROXY_ALLOWED_PATHS || DEFAULT_PROXY_PATHS
+)
+  .split(",")
+  .map((v) => v.trim().split(/\s+/))
+  .filter((parts) => parts.length === 2)
+  .map(
+    ([method, path]): ProxyRoute => ({
+      method: method.toUpperCase(),
+      path: path.replace(/^\/+/, ""),
+    }),
+  );
+
+export type RateLimit = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+const RATE_LIMIT = (function getRateLimit(): RateLimit | undefined {
+  const [requests, seconds] = (process.env.RATE_LIMIT ?? "")
+    .split("/")
+    .map((v) => parseFloat(v));
+  if (!(requests > 0 && seconds > 0)) return;
+
+  const burst = parseInt(process.env.RATE_LIMIT_BURST ?? "");
+  return {
+    capacity: burst > 0 ? burst : requests,
+    refillPerSecond: requests / seconds,
+  };
+})();
+
 export const getServerSideConfig = () => {
   if (typeof process === "undefined") {
     throw Error(
@@ -34,11 +155,40 @@ export const getServerSideConfig = () => {
 
   return {
     apiKey: process.env.OPENAI_API_KEY,
-    code: process.env.CODE,
     codes: ACCESS_CODES,
-    needCode: ACCESS_CODES.size > 0,
+    needCode: ACCESS_CODES.length > 0,
+    sessionSecret: process.env.SESSION_SECRET,
+    sessionTtl: parseInt(process.env.SESSION_TTL ?? "60") * 60 * 1000,
     proxyUrl: process.env.PROXY_URL,
     isVercel: !!process.env.VERCEL,
     hideUserApiKey: !!process.env.HIDE_USER_API_KEY,
+
+    azureUrl: process.env.AZURE_URL,
+    azureApiKey: process.env.AZURE_API_KEY,
+    azureApiVersion: process.env.AZURE_API_VERSION ?? "2024-02-01",
+
+    anthropicUrl: process.env.ANTHROPIC_URL ?? "https://api.anthropic.com",
+    anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+
+    compatibleUrl: process.env.COMPATIBLE_URL,
+    compatibleApiKey: process.env.COMPATIBLE_API_KEY,
+
+    proxyAllowedPaths: PROXY_ALLOWED_PATHS,
+    allowedModels: (process.env.ALLOWED_MODELS ?? "")
+      .split(",")
+      .map((v) => v.trim())
+      .filter((v) => v.length > 0),
+    policies: CODE_POLICIES,
+
+    // vercel functions can not write to disk
+    usageStore:
+      process.env.USAGE_STORE ?? (process.env.VERCEL ? "memory" : "file"),
+    usageFile: process.env.USAGE_FILE ?? "data/usage.jsonl",
+    usageAdminCode: process.env.USAGE_ADMIN_CODE,
+
+    rateLimit: RATE_LIMIT,
+
+    logLevel: process.env.LOG_LEVEL ?? "info",
+    logFormat: process.env.LOG_FORMAT ?? "text",
   };
 };
@@ -31,6 +31,8 @@ export enum StoreKey {
   Mask = "mask-store",
   Prompt = "prompt-store",
   Update = "chat-update",
+  Models = "model-list",
+  Cost = "cost-store",
 }
 
 export const MAX_SIDEBAR_WIDTH = 500;
@@ -38,5 +40,18 @@ export const MIN_SIDEBAR_WIDTH = 230;
 export const NARROW_SIDEBAR_WIDTH = 100;
 
 export const ACCESS_CODE_PREFIX = "ak-";
+export const SESSION_TOKEN_PREFIX = "st-";
 
 export const INCREMENTAL_SUMMARY_PREFIX = "(summary)";
+
+export enum Provider {
+  OpenAI = "openai",
+  Azure = "azure",
+  Anthropic = "anthropic",
+  Compatible = "openai-compatible",
+}
+
+// tells the proxy which upstream a request is meant for
+export const PROVIDER_HEADER = "x-chat-provider";
+export const ORG_ID_HEADER = "OpenAI-Organization";
+export const REQUEST_ID_HEADER = "x-request-id";
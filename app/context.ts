@@ -0,0 +1,184 @@
+import type { ChatSession, Message, ModelConfig, ModelType } from "./store";
+import { findModelCapability, SummaryLevel } from "./store/config";
+import { summarizeMessageIncrementally } from "./requests";
+import { countRequestTokens } from "./tokenizer";
+
+// the newest messages are never summarized or hidden to make room
+const PROTECTED_RECENT_MESSAGES = 1;
+// upper bound of summary requests made before a single send
+const MAX_SUMMARIES_PER_REQUEST = 5;
+// a large max_tokens must not leave the history without room
+const MAX_OUTPUT_SHARE = 0.25;
+
+export type ContextReport = {
+  budget: number;
+  nTokens: number;
+  includedIds: number[];
+  summarizedIds: number[];
+  hiddenIds: number[];
+};
+
+export type ContextAssembly = {
+  session: ChatSession;
+  model: ModelType;
+  budget: number;
+  // always sent, never trimmed
+  preamble: Message[];
+  // candidate messages, oldest first
+  history: Message[];
+  report: ContextReport;
+};
+
+export type ContextStrategy = (assembly: ContextAssembly) => Promise<void>;
+
+export function countAssemblyTokens(assembly: ContextAssembly) {
+  return countRequestTokens(
+    [...assembly.preamble, ...assembly.history],
+    assembly.model,
+  );
+}
+
+function overBudget(assembly: ContextAssembly) {
+  return countAssemblyTokens(assembly) > assembly.budget;
+}
+
+function trimmableMessages(assembly: ContextAssembly) {
+  return assembly.history.slice(
+    0,
+    Math.max(0, assembly.history.length - PROTECTED_RECENT_MESSAGES),
+  );
+}
+
+function usesSummaries(assembly: ContextAssembly) {
+  return (
+    assembly.session.mask.modelConfig.summaryLevel === SummaryLevel.Incremental
+  );
+}
+
+export const useExistingSummaries: ContextStrategy = async (assembly) => {
+  if (!usesSummaries(assembly)) return;
+
+  for (const message of trimmableMessages(assembly)) {
+    if (!overBudget(assembly)) return;
+    if (message.useSummary || !message.summary) continue;
+
+    message.useSummary = true;
+    assembly.report.summarizedIds.push(message.id ?? 0);
+  }
+};
+
+export const summarizeOldestMessages: ContextStrategy = async (assembly) => {
+  if (!usesSummaries(assembly)) return;
+
+  let nRequests = 0;
+  for (const message of trimmableMessages(assembly)) {
+    if (!overBudget(assembly) || nRequests >= MAX_SUMMARIES_PER_REQUEST) {
+      return;
+    }
+    if (message.useSummary || message.summary) continue;
+
+    nRequests += 1;
+    // a failed summary leaves the message to the next strategy
+    const res = await summarizeMessageIncrementally(
+      message,
+      assembly.session,
+    ).catch((e) => {
+      console.error("[Context] failed to summarize", message.id, e);
+      return undefined;
+    });
+    if (!res?.summary) continue;
+
+    message.summary = res.summary;
+    message.nSummaryTokens = res.nSummaryTokens;
+    message.useSummary = true;
+    assembly.report.summarizedIds.push(message.id ?? 0);
+  }
+};
+
+export const hideOldestMessages: ContextStrategy = async (assembly) => {
+  for (const message of trimmableMessages(assembly)) {
+    if (!overBudget(assembly)) return;
+
+    message.hidden = true;
+    assembly.history = assembly.history.filter((m) => m !== message);
+    assembly.report.hiddenIds.push(message.id ?? 0);
+  }
+};
+
+export const DEFAULT_CONTEXT_STRATEGIES: ContextStrategy[] = [
+  useExistingSummaries,
+  summarizeOldestMessages,
+  hideOldestMessages,
+];
+
+// what a send would do, without making summary requests, for previews
+export const DRY_RUN_CONTEXT_STRATEGIES: ContextStrategy[] = [
+  useExistingSummaries,
+  hideOldestMessages,
+];
+
+// unknown models are not trimmed, hiding is permanent and we would only guess
+export function getContextBudget(modelConfig: ModelConfig) {
+  const capability = findModelCapability(modelConfig.model);
+  if (!capability) return Infinity;
+
+  const { contextWindow, maxOutput } = capability;
+  const reserved = Math.min(
+    modelConfig.max_tokens,
+    maxOutput,
+    Math.floor(contextWindow * MAX_OUTPUT_SHARE),
+  );
+  return contextWindow - reserved;
+}
+
+export async function assembleContext(
+  session: ChatSession,
+  preamble: Message[],
+  history: Message[],
+  strategies = DEFAULT_CONTEXT_STRATEGIES,
+) {
+  const modelConfig = session.mask.modelConfig;
+  const budget = getContextBudget(modelConfig);
+  const assembly: ContextAssembly = {
+    session,
+    model: modelConfig.model,
+    budget,
+    preamble,
+    history: history.filter((message) => !message.hidden),
+    report: {
+      budget,
+      nTokens: 0,
+      includedIds: [],
+      summarizedIds: [],
+      hiddenIds: [],
+    },
+  };
+
+  for (const strategy of strategies) {
+    if (!overBudget(assembly)) break;
+    await strategy(assembly);
+  }
+
+  assembly.report.nTokens = countAssemblyTokens(assembly);
+  assembly.report.includedIds = assembly.history.map((m) => m.id ?? 0);
+
+  return {
+    messages: [...assembly.preamble, ...assembly.history],
+    report: assembly.report,
+  };
+}
+
+// what a send would trim, run on a copy so nothing is hidden for real
+export function dryRunContext(
+  session: ChatSession,
+  preamble: Message[],
+  history: Message[],
+) {
+  const copy = JSON.parse(JSON.stringify({ session, preamble, history }));
+  return assembleContext(
+    copy.session,
+    copy.preamble,
+    copy.history,
+    DRY_RUN_CONTEXT_STRATEGIES,
+  );
+}
@@ -9,3 +9,9 @@ declare module "*.scss" {
 }
 
 declare module "*.svg";
+
+declare module "js-tiktoken/ranks/*" {
+  import type { TiktokenBPE } from "js-tiktoken/lite";
+  const ranks: TiktokenBPE;
+  export default ranks;
+}
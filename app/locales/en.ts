@@ -5,12 +5,44 @@ const en = {
   Error: {
     Unauthorized:
       "Unauthorized access, please enter access code in settings page.",
+    Timeout:
+      "The server did not respond in time, please check your network and try again.",
+    RetryAfter: (seconds: number) =>
+      `Too many requests, please try again in ${seconds} seconds.`,
+    Api: {
+      provider_unavailable: (msg: string) =>
+        `This provider is not available: ${msg}`,
+      path_not_allowed: (msg: string) =>
+        `This endpoint is not open on this server: ${msg}`,
+      model_not_allowed: (msg: string) =>
+        `This model can not be used with your access: ${msg}`,
+      max_tokens_exceeded: (msg: string) =>
+        `Lower Max Tokens in the model settings: ${msg}`,
+      quota_exceeded: (msg: string) =>
+        `You have used up your quota for today: ${msg}`,
+      rate_limited: (msg: string) =>
+        `Too many requests, please wait a moment: ${msg}`,
+      invalid_code: (msg: string) =>
+        `Check the access code in the settings: ${msg}`,
+      code_expired: (msg: string) =>
+        `Ask the admin for a new access code: ${msg}`,
+      session_expired: (msg: string) =>
+        `Your session has ended, please send it again: ${msg}`,
+    },
   },
   ChatItem: {
     ChatItemCount: (count: number) => `${count} messages`,
   },
   Chat: {
     SubTitle: (count: number) => `${count} messages with ChatGPT`,
+    Interrupted: "Interrupted",
+    Tool: {
+      Call: (name: string) => `Calls ${name}`,
+      Result: (name: string) => `Result of ${name}`,
+    },
+    ToolRoundsExceeded:
+      "Stopped answering tool calls, the model kept asking for more.",
+    Truncated: "Cut off at max tokens",
     Actions: {
       ChatList: "Go To Chat List",
       CompressedHistory: "Compressed History Memory Prompt",
@@ -18,7 +50,28 @@ const en = {
       Copy: "Copy",
       Stop: "Stop",
       Retry: "Retry",
+      Continue: "Continue",
+      Delete: "Delete",
+      Review: "Review",
+      Select: "Select",
+      CollapseBefore: "Collapse Above",
+    },
+    Select: {
+      Count: (count: number) => `${count} selected`,
+      All: "Select All",
+      Hide: "Hide",
+      Show: "Show",
+      Summarize: "Summarize",
+      Summarizing: (done: number, total: number) =>
+        `Summarizing ${done}/${total}`,
       Delete: "Delete",
+      Done: "Done",
+      HiddenToast: (count: number) => `${count} messages hidden`,
+      ShownToast: (count: number) => `${count} messages shown`,
+      DeletedToast: (count: number) => `${count} messages deleted`,
+      SummarizedToast: (count: number) => `${count} messages summarized`,
+      SummaryFailedToast: (count: number, nFailed: number) =>
+        `${count} messages summarized, ${nFailed} failed`,
     },
     Rename: "Rename Chat",
     Typing: "Typing…",
@@ -30,6 +83,37 @@ const en = {
       return inputHints + ", / to search prompts";
     },
     Send: "Send",
+    MemoryUsage: (percent: number, contextWindow: number) =>
+      `${percent}% of ${Math.round(contextWindow / 1024)}k memory usage`,
+    ContextOverflow: (nTokens: number, budget: number) =>
+      `Even after trimming older messages this request is about ${nTokens} tokens, more than the ${budget} tokens the model has room for, and will probably be rejected. Send anyway?`,
+    ContextTrimmed: (nSummarized: number, nHidden: number) =>
+      `To fit the model window, ${nSummarized} older messages were summarized and ${nHidden} hidden`,
+    SummaryReview: {
+      Title: "Review Summary",
+      Original: "Original",
+      Summary: "Summary",
+      Savings: (nTokens: number, nSummaryTokens: number) =>
+        `${nTokens} → ${nSummaryTokens} tokens, saves ${
+          nTokens > 0 ? Math.round((1 - nSummaryTokens / nTokens) * 100) : 0
+        }%`,
+      Instructions: "Instructions for regenerating, e.g. keep all numbers",
+      Regenerate: "Regenerate",
+      UseSummary: "Send Summary",
+      UseOriginal: "Send Original",
+    },
+    RequestPreview: {
+      Title: "Inspect Payload",
+      Total: (nTokens: number, contextWindow: number) =>
+        `${nTokens} / ${contextWindow} tokens`,
+      Tokens: (nTokens: number) => `${nTokens} tokens`,
+      Trimmed: (budget: number, nSummarized: number, nHidden: number) =>
+        `To fit the ${budget} token budget, ${nSummarized} older messages use their summary and ${nHidden} are hidden. Sending may summarize some of the hidden ones instead.`,
+      OverBudget: (budget: number) =>
+        `Still over the ${budget} token budget, the newest message alone is too long.`,
+      Payload: "Request Body",
+      Copy: "Copy JSON",
+    },
     Config: {
       Reset: "Reset to Default",
       SaveAs: "Save as Mask",
@@ -137,50 +221,208 @@ const en = {
       SubTitle: "Use your key to ignore access code limit",
       Placeholder: "OpenAI API Key",
     },
+    Profile: {
+      Title: "Connection",
+      SubTitle: "Endpoint and key used by masks without their own",
+      Edit: "Manage",
+      Name: "Name",
+      Url: {
+        Title: "Endpoint",
+        SubTitle: "Built-in proxy is /api/openai/",
+      },
+      OrgId: "Organization ID",
+      Models: {
+        Title: "Models",
+        SubTitle: "Comma separated, offered for masks using this connection",
+        Placeholder: "All models",
+      },
+      Delete: "Delete Connection",
+      Default: "Follow Settings",
+      Modal: {
+        Title: "Connections",
+        Add: "Add Connection",
+      },
+    },
     Usage: {
-      Title: "Account Balance",
-      SubTitle(used: any, total: any) {
-        return `Used this month $${used}, subscription $${total}`;
+      Title: "Usage",
+      SubTitle(today: number, month: number) {
+        return `${today} tokens today, ${month} this month`;
       },
+      Empty: "Nothing used yet",
       IsChecking: "Checking...",
       Check: "Check",
-      NoAccess: "Enter API Key to check balance",
+      Details: "Details",
+      NoAccess: "Enter an access code to check usage",
+      Requests: (count: number) => `${count} requests this month`,
+      Tokens: (prompt: number, completion: number) =>
+        `${prompt} prompt + ${completion} completion tokens`,
+      Modal: {
+        Title: "Usage This Month",
+        ByModel: "By Model",
+        ByCode: "By Access Code",
+      },
+    },
+    Tools: {
+      Title: "Tools",
+      SubTitle: "Functions the model may call, they run in your browser",
+      Builtin: {
+        Calculator: "Calculator",
+        DateTime: "Date & Time",
+        Units: "Unit Conversion",
+        Regex: "Regex Tester",
+        Json: "JSON Checker",
+      },
+    },
+    Timeouts: {
+      Title: "Timeouts",
+      SubTitle:
+        "Seconds to connect, between two chunks and for the whole reply (0 for no limit)",
+      connectTimeout: "Connect",
+      idleTimeout: "Idle",
+      totalTimeout: "Total",
+    },
+    Retries: {
+      Title: "Retries",
+      SubTitle:
+        "Attempts on network errors and busy servers before a reply starts",
+    },
+    Spend: {
+      Title: "Spend",
+      SubTitle: (today: string, month: string) =>
+        `${today} today, ${month} this month, priced locally per model`,
+      BudgetNear: (spent: string) =>
+        `${spent} spent this month, close to your budget`,
+      BudgetReached: (budget: string) =>
+        `Your monthly budget of ${budget} is used up`,
+      Budget: {
+        Title: "Monthly Budget",
+        SubTitle: "Warn when spend passes it, 0 to turn off",
+        Over: "Over budget this month",
+      },
+      Modal: {
+        Title: "Spend This Month",
+        ByDay: "By Day",
+        BySession: "By Chat",
+        ByMask: "By Mask",
+        ByModel: "By Model",
+        Clear: "Clear History",
+        ConfirmClear: "Clear all recorded spend?",
+      },
     },
     AccessCode: {
       Title: "Access Code",
       SubTitle: "Access control enabled",
       Placeholder: "Need Access Code",
     },
+    Provider: {
+      Title: "Provider",
+      SubTitle: "Where requests are sent, the server must have it configured",
+      Name: {
+        openai: "OpenAI",
+        azure: "Azure OpenAI",
+        anthropic: "Anthropic",
+        "openai-compatible": "OpenAI Compatible",
+      },
+    },
     Model: "Model",
     SummaryLevel: "Summary Level",
+    AutoSummarize: {
+      Title: "Auto Summarize",
+      SubTitle:
+        "Summarize long messages in the background once they get old, each summary is a request to the summary model",
+      MinTokens: {
+        Title: "Auto Summarize Threshold",
+        SubTitle: "Only messages longer than this many tokens are summarized",
+      },
+      KeepTurns: {
+        Title: "Recent Turns Kept in Full",
+        SubTitle: "Messages of the last turns are never auto summarized",
+      },
+      UserMessages: {
+        Title: "Auto Summarize User Messages",
+        SubTitle: "Summarize your own long messages as well",
+      },
+    },
+    SummaryModel: {
+      Title: "Summary Model",
+      SubTitle: "Model used to summarize messages and the chat memory",
+    },
+    TopicModel: {
+      Title: "Topic Model",
+      SubTitle: "Model used to name the conversation",
+    },
+    SummaryTargetLength: {
+      Title: "Summary Length",
+      SubTitle: "Target summary length in words, 0 for no limit",
+    },
+    SummaryInstructions: {
+      Title: "Summarizer Instructions",
+      SubTitle: "Extra instructions added to the summary prompt",
+      Placeholder: "e.g. Keep code blocks and numbers verbatim",
+    },
     Temperature: {
       Title: "Temperature",
       SubTitle: "A larger value makes the more random output",
     },
     MaxTokens: {
       Title: "Max Tokens",
-      SubTitle: "Maximum length of input tokens and generated tokens",
+      SubTitle: "Maximum number of tokens generated per reply",
     },
     PresencePenlty: {
       Title: "Presence Penalty",
       SubTitle:
         "A larger value increases the likelihood to talk about new topics",
     },
+    FrequencyPenalty: {
+      Title: "Frequency Penalty",
+      SubTitle: "A larger value makes repeating the same lines less likely",
+    },
+    TopP: {
+      Title: "Top P",
+      SubTitle: "Only sample from the most likely tokens up to this mass",
+    },
+    N: {
+      Title: "Choices",
+      SubTitle:
+        "Completions per request that does not stream, chat replies stream one",
+    },
+    Seed: {
+      Title: "Seed",
+      SubTitle: "Same seed and settings give mostly repeatable answers",
+      Placeholder: "Random",
+    },
+    Stop: {
+      Title: "Stop Sequences",
+      SubTitle: "One per line, up to 4",
+    },
+    LogitBias: {
+      Title: "Logit Bias",
+      SubTitle: "JSON map of token id to bias between -100 and 100",
+      Invalid: "Logit bias is not valid JSON",
+    },
+    ResponseFormat: {
+      Title: "Response Format",
+      SubTitle: "json_object forces valid JSON, mention JSON in the prompt",
+    },
   },
   Store: {
     DefaultTopic: "New Conversation",
     BotHello: "Hello! How can I assist you today?",
     Error: "Something went wrong, please try again later.",
     Prompt: {
+      Continue:
+        "Your last reply was cut off. Continue exactly where it stopped, without repeating anything or adding an introduction.",
       History: (content: string) =>
         "This is a summary of the chat history between the AI and the user as a recap: " +
         content,
       Topic:
         "Please generate a four to five word title summarizing our conversation without any lead-in, punctuation, quotation marks, periods, symbols, or additional text. Remove enclosing quotation marks.",
       Summarize:
-        "Summarize our discussion briefly in 200 words or less to use as a prompt for future context.",
+        "Summarize our discussion briefly to use as a prompt for future context.",
       SummarizeIncremental:
         "As an expert summarizer, your task is to create a concise summary of the following (next) message (which may the AI's or the user's) in the context of previous messages. Do not reply to the message - summarize it.",
+      SummaryLength: (words: number) =>
+        `Keep the summary under ${words} words.`,
     },
   },
   Copy: {
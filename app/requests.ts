@@ -1,6 +1,18 @@
-import type { ChatRequest, ChatResponse } from "./api/openai/typing";
+import type {
+  ApiError,
+  ChatRequest,
+  ChatResponse,
+  ChatRequestMessage,
+  ChatStreamEvent,
+  ChatStreamResult,
+} from "./api/openai/typing";
+import { getToolDefinitions, mergeToolCallDeltas } from "./tools";
+import { createParser } from "eventsource-parser";
+import type { UsageReport } from "./api/accounting";
 import {
+  DEFAULT_CONFIG,
   Message,
+  ModalConfigValidator,
   ModelConfig,
   ModelType,
   SummaryLevel,
@@ -8,15 +20,76 @@ import {
   useAppConfig,
   useChatStore,
   ChatSession,
+  recordSessionCost,
 } from "./store";
 import { showToast } from "./components/ui-lib";
-import { ACCESS_CODE_PREFIX } from "./constant";
+import {
+  ORG_ID_HEADER,
+  Provider,
+  PROVIDER_HEADER,
+  SESSION_TOKEN_PREFIX,
+} from "./constant";
 import { INCREMENTAL_SUMMARY_PREFIX } from "./constant";
 import Locale from "./locales";
+import {
+  countRequestTokens,
+  countSummaryTokens,
+  countTextTokens,
+} from "./tokenizer";
 import { ChatCompletionRequestMessage } from "openai";
 import { useSubmit } from "react-router-dom";
 
-const TIME_OUT_MS = 60000;
+// longer waits, e.g. a far off Retry-After, are left to the user
+const MAX_RETRY_DELAY_MS = 10000;
+
+// exponential backoff with jitter, or what the server asks for
+function retryDelay(attempt: number, res?: Response) {
+  const retryAfter = parseInt(res?.headers.get("Retry-After") ?? "");
+  const delay =
+    retryAfter > 0
+      ? retryAfter * 1000
+      : 500 * 2 ** attempt * (1 + Math.random());
+  return delay <= MAX_RETRY_DELAY_MS ? delay : undefined;
+}
+
+// a used up quota or a policy refusal does not pass by waiting
+async function isTemporaryLimit(res: Response) {
+  if (res.headers.has("Retry-After")) return true;
+  const body = (await res
+    .clone()
+    .json()
+    .catch(() => null)) as ApiError | null;
+  return body?.code === "rate_limited";
+}
+
+// the api rejects tool results without the call they answer and calls
+// without results, context trimming can split them apart
+function pairToolMessages(messages: Message[]) {
+  const answered = new Set(
+    messages.filter((m) => m.role === "tool").map((m) => m.toolCallId),
+  );
+  const asked = new Set<string>();
+  const paired: Message[] = [];
+
+  for (const message of messages) {
+    if (message.role === "tool") {
+      if (message.toolCallId && asked.has(message.toolCallId)) {
+        paired.push(message);
+      }
+    } else if (message.toolCalls) {
+      if (message.toolCalls.every((call) => answered.has(call.id))) {
+        message.toolCalls.forEach((call) => asked.add(call.id));
+        paired.push(message);
+      } else if (message.content.length > 0) {
+        paired.push({ ...message, toolCalls: undefined });
+      }
+    } else {
+      paired.push(message);
+    }
+  }
+
+  return paired;
+}
 
 export type SummaryResponse = {
   messageId?: number;
@@ -24,34 +97,49 @@ export type SummaryResponse = {
   nSummaryTokens?: number;
 };
 
-const makeRequestParam = (
+// explicit overrides > caller's config > session mask > global config
+function getRequestModelConfig(modelConfig?: ModelConfig): ModelConfig {
+  return {
+    ...useAppConfig.getState().modelConfig,
+    ...(modelConfig ??
+      useChatStore.getState().currentSession().mask.modelConfig),
+  };
+}
+
+export const makeRequestParam = (
   messages: Message[],
   options?: {
     stream?: boolean;
+    modelConfig?: ModelConfig;
     overrideModel?: ModelType;
     overrideTemperature?: number;
     overridePresencePenalty?: number;
   },
 ): ChatRequest => {
-  let session = useChatStore.getState().currentSession();
   // let swifyIntro: Message = {
   //   role: "system",
   //   content:
   //     "You are a Swiftie! Answer any questions and conduct conversations carefully and to the point, addressing an intelligent teenager. But whenever possible, also insert a relevant (or relevant-ish) Taylor Swift quote or trivia (don't make these up). Ideally, the (relative) relevance of the quote/trivia, or the way you introduce it, should be sly, funny or ridiculous. Well, if there's something very relevant, but not funny - that's great too. Try not to be a boomer about it. Remember you're talking to a teenager, so don't make her eye-roll and don't be condescending. BTW, your favorite album is 1989, but you can change your mind as to your favorite song. And you hate Olivia Rodrigo - dis her occasionally (not every message) and be funny about that too. Good luck!",
   //   date: "",
   // };
-  let sendMessages = [...messages].map((message) => {
-    return {
+  let sendMessages = pairToolMessages(messages).map((message) => {
+    const sendMessage: ChatRequestMessage = {
       role: message.role,
       content: message.useSummary
         ? `${INCREMENTAL_SUMMARY_PREFIX} ${message.summary}`
         : message.content,
     };
+    if (message.toolCalls) {
+      sendMessage.tool_calls = message.toolCalls;
+      sendMessage.content ||= null;
+    }
+    if (message.toolCallId) {
+      sendMessage.tool_call_id = message.toolCallId;
+    }
+    return sendMessage;
   });
-  const modelConfig = {
-    ...useAppConfig.getState().modelConfig,
-    ...useChatStore.getState().currentSession().mask.modelConfig,
-  };
+
+  const modelConfig = getRequestModelConfig(options?.modelConfig);
 
   // override model config
   if (options?.overrideModel) {
@@ -64,120 +152,204 @@ const makeRequestParam = (
     modelConfig.presence_penalty = options?.overridePresencePenalty;
   }
 
-  return {
+  const request: ChatRequest = {
     messages: sendMessages,
     stream: options?.stream,
     model: modelConfig.model,
     temperature: modelConfig.temperature,
     presence_penalty: modelConfig.presence_penalty,
+    frequency_penalty: modelConfig.frequency_penalty,
+    top_p: modelConfig.top_p,
+    max_tokens: ModalConfigValidator.max_tokens(
+      modelConfig.max_tokens,
+      modelConfig.model,
+    ),
   };
+
+  // optional fields are left out unless set, not every model takes them
+  if (modelConfig.tools.length > 0) {
+    request.tools = getToolDefinitions(modelConfig.tools);
+  }
+  if (modelConfig.stop.length > 0) {
+    request.stop = modelConfig.stop;
+  }
+  // streamed choices of one reply would interleave, so only plain requests get n
+  const n = ModalConfigValidator.n(modelConfig.n);
+  if (!options?.stream && n > 1) {
+    request.n = n;
+  }
+  if (modelConfig.seed != null) {
+    request.seed = modelConfig.seed;
+  }
+  if (Object.keys(modelConfig.logit_bias).length > 0) {
+    request.logit_bias = modelConfig.logit_bias;
+  }
+  if (modelConfig.response_format !== "text") {
+    request.response_format = { type: modelConfig.response_format };
+  }
+
+  return request;
 };
 
-function getHeaders() {
+// which upstream and connection profile a request goes through
+export type RequestTarget = Partial<
+  Pick<ModelConfig, "provider" | "profileId">
+>;
+
+async function getHeaders(target?: RequestTarget) {
   const accessStore = useAccessStore.getState();
-  let headers: Record<string, string> = {};
+  const profile = accessStore.getProfile(target?.profileId);
+  let headers: Record<string, string> = {
+    [PROVIDER_HEADER]: target?.provider ?? Provider.OpenAI,
+  };
 
   const makeBearer = (token: string) => `Bearer ${token.trim()}`;
   const validString = (x: string) => x && x.length > 0;
 
   // use user's api key first
-  if (validString(accessStore.token)) {
-    headers.Authorization = makeBearer(accessStore.token);
+  if (validString(profile.token)) {
+    headers.Authorization = makeBearer(profile.token);
   } else if (
     accessStore.enabledAccessControl() &&
     validString(accessStore.accessCode)
   ) {
-    headers.Authorization = makeBearer(
-      ACCESS_CODE_PREFIX + accessStore.accessCode,
-    );
+    // the code itself only goes to the login route
+    const session = await accessStore.login();
+    if (session) {
+      headers.Authorization = makeBearer(SESSION_TOKEN_PREFIX + session);
+    }
+  }
+
+  if (validString(profile.orgId)) {
+    headers[ORG_ID_HEADER] = profile.orgId.trim();
   }
 
   return headers;
 }
 
-export function requestOpenaiClient(path: string) {
-  const openaiUrl = useAccessStore.getState().openaiUrl;
-  return (body: any, method = "POST") =>
-    fetch(openaiUrl + path, {
+// codes of a newer server than this client are shown as they are
+export function describeApiError(error: ApiError) {
+  const describe = error.code && Locale.Error.Api[error.code];
+  return describe ? describe(error.msg) : error.msg;
+}
+
+export function requestOpenaiClient(path: string, target?: RequestTarget) {
+  const { url } = useAccessStore.getState().getProfile(target?.profileId);
+  return async (body: any, method = "POST") =>
+    fetch(url + path, {
       method,
       body: body && JSON.stringify(body),
-      headers: getHeaders(),
+      headers: await getHeaders(target),
     });
 }
 
 export async function requestChat(
   messages: Message[],
   options?: {
+    target?: RequestTarget;
+    // the chat the cost is booked to
+    session?: ChatSession;
     model?: ModelType;
     temperature?: number;
     presencePenalty?: number;
   },
 ) {
+  // housekeeping requests (summaries, topics) use plain sampling defaults
   const req: ChatRequest = makeRequestParam(messages, {
+    modelConfig: DEFAULT_CONFIG.modelConfig,
     overrideModel: options?.model,
     overrideTemperature: options?.temperature,
     overridePresencePenalty: options?.presencePenalty,
     stream: false,
   });
 
-  const res = await requestOpenaiClient("v1/chat/completions")(req);
+  const res = await requestOpenaiClient(
+    "v1/chat/completions",
+    options?.target,
+  )(req);
 
   try {
     const response = (await res.json()) as ChatResponse;
+    if (options?.session && response.choices) {
+      recordSessionCost(
+        options.session,
+        req.model,
+        response.usage?.prompt_tokens ??
+          countRequestTokens(messages, req.model),
+        response.usage?.completion_tokens ??
+          countTextTokens(
+            response.choices.at(0)?.message?.content ?? "",
+            req.model,
+          ),
+      );
+    }
     return response;
   } catch (error) {
     console.error("[Request Chat] ", error, res.body);
   }
 }
 
-export async function requestUsage() {
-  const formatDate = (d: Date) =>
-    `${d.getFullYear()}-${(d.getMonth() + 1).toString().padStart(2, "0")}-${d
-      .getDate()
-      .toString()
-      .padStart(2, "0")}`;
-  const ONE_DAY = 1 * 24 * 60 * 60 * 1000;
-  const now = new Date();
-  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-  const startDate = formatDate(startOfMonth);
-  const endDate = formatDate(new Date(Date.now() + ONE_DAY));
-
-  const [used, subs] = await Promise.all([
-    requestOpenaiClient(
-      `dashboard/billing/usage?start_date=${startDate}&end_date=${endDate}`,
-    )(null, "GET"),
-    requestOpenaiClient("dashboard/billing/subscription")(null, "GET"),
-  ]);
+// ids of the models the key can use, undefined when the backend can not tell
+export async function requestModels(target?: RequestTarget) {
+  try {
+    const res = await requestOpenaiClient("v1/models", target)(null, "GET");
+    const body = (await res.json()) as { data?: { id: string }[] };
+    return body.data?.map((model) => model.id);
+  } catch (error) {
+    console.error("[Request Models] ", error);
+  }
+}
 
-  const response = (await used.json()) as {
-    total_usage?: number;
-    error?: {
-      type: string;
-      message: string;
-    };
-  };
+// tokens used through the proxy with the current access code
+export async function requestUsage() {
+  try {
+    const res = await fetch("/api/usage", {
+      headers: await getHeaders(),
+    });
+    const body = (await res.json()) as UsageReport | ApiError;
+    if ("error" in body) {
+      showToast(body.msg);
+      return;
+    }
+    return body;
+  } catch (error) {
+    console.error("[Request Usage] ", error);
+  }
+}
 
-  const total = (await subs.json()) as {
-    hard_limit_usd?: number;
-  };
+// the proxy sends ChatStreamEvent json, profiles that point at openai
+// directly get the raw completion chunks
+function toStreamEvents(data: string): ChatStreamEvent[] {
+  if (data === "[DONE]") return [];
 
-  if (response.error && response.error.type) {
-    showToast(response.error.message);
-    return;
+  let json: any;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return [];
   }
-
-  if (response.total_usage) {
-    response.total_usage = Math.round(response.total_usage) / 100;
+  if (typeof json.type === "string") return [json as ChatStreamEvent];
+
+  const events: ChatStreamEvent[] = [];
+  const choice = json.choices?.at(0);
+  if (choice?.delta?.content || choice?.delta?.tool_calls) {
+    events.push({
+      type: "delta",
+      text: choice.delta.content ?? "",
+      toolCalls: choice.delta.tool_calls,
+    });
   }
-
-  if (total.hard_limit_usd) {
-    total.hard_limit_usd = Math.round(total.hard_limit_usd * 100) / 100;
+  if (choice?.finish_reason) {
+    events.push({ type: "finish", reason: choice.finish_reason });
   }
-
-  return {
-    used: response.total_usage,
-    subscription: total.hard_limit_usd,
-  };
+  if (json.usage) {
+    events.push({
+      type: "usage",
+      promptTokens: json.usage.prompt_tokens,
+      completionTokens: json.usage.completion_tokens,
+    });
+  }
+  return events;
 }
 
 export async function requestChatStream(
@@ -185,86 +357,221 @@ export async function requestChatStream(
   options?: {
     modelConfig?: ModelConfig;
     overrideModel?: ModelType;
-    onMessage: (message: string, done: boolean) => void;
+    // result carries the finish reason and usage once done
+    onMessage: (
+      message: string,
+      done: boolean,
+      result?: ChatStreamResult,
+    ) => void;
     onError: (error: Error, statusCode?: number) => void;
     onController?: (controller: AbortController) => void;
   },
 ) {
+  const modelConfig = getRequestModelConfig(options?.modelConfig);
   const req = makeRequestParam(messages, {
     stream: true,
+    modelConfig,
     overrideModel: options?.overrideModel,
   });
 
   console.log("[Request] ", req);
 
+  const config = useAppConfig.getState();
+  // handed to the stop button, also aborted by our own timeouts
   const controller = new AbortController();
-  const reqTimeoutId = setTimeout(() => controller.abort(), TIME_OUT_MS);
+  // set when a timeout aborted the request rather than the user
+  let timedOut = false;
+  const abortAfter = (seconds: number, abort: () => void) =>
+    setTimeout(() => {
+      timedOut = true;
+      abort();
+    }, seconds * 1000);
+
+  const totalTimeoutId =
+    config.totalTimeout > 0
+      ? abortAfter(config.totalTimeout, () => controller.abort())
+      : undefined;
+
+  // retries network errors, 5xx and temporary 429s until the reply starts
+  const connect = async () => {
+    const { url } = useAccessStore.getState().getProfile(modelConfig.profileId);
+    const headers = {
+      "Content-Type": "application/json",
+      ...(await getHeaders(modelConfig)),
+    };
 
-  try {
-    const openaiUrl = useAccessStore.getState().openaiUrl;
+    for (let attempt = 0; ; attempt++) {
+      // the user may stop or the total timeout hit while waiting to retry
+      if (controller.signal.aborted) {
+        throw new Error(timedOut ? Locale.Error.Timeout : "Request aborted");
+      }
 
-    const futureRes = fetch(openaiUrl + "v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        ...getHeaders(),
-      },
-      body: JSON.stringify(req),
-      signal: controller.signal,
-    });
+      // a connect timeout only gives up this attempt
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort();
+      controller.signal.addEventListener("abort", abortAttempt);
+      const connectTimeoutId = abortAfter(config.connectTimeout, abortAttempt);
+
+      let res: Response | undefined;
+      let error: unknown;
+      try {
+        res = await fetch(url + "v1/chat/completions", {
+          method: "POST",
+          headers,
+          body: JSON.stringify(req),
+          signal: attemptController.signal,
+        });
+      } catch (e) {
+        error = e;
+      } finally {
+        clearTimeout(connectTimeoutId);
+      }
 
-    const concatedMessages: string = messages
-      .map((message) => message.content)
-      .join("\n");
+      if (controller.signal.aborted) {
+        throw timedOut ? new Error(Locale.Error.Timeout) : error;
+      }
+      const retryable =
+        !res ||
+        res.status >= 500 ||
+        (res.status === 429 && (await isTemporaryLimit(res)));
+      const delay = retryDelay(attempt, res);
+      if (!retryable || attempt >= config.requestRetries || delay == null) {
+        if (res) return res;
+        throw timedOut ? new Error(Locale.Error.Timeout) : error;
+      }
 
-    const res = await futureRes;
+      console.warn("[Request] retry", attempt + 1, "in", delay, "ms");
+      controller.signal.removeEventListener("abort", abortAttempt);
+      timedOut = false;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  };
 
-    clearTimeout(reqTimeoutId);
+  try {
+    options?.onController?.(controller);
+    const res = await connect();
 
     let responseText = "";
+    const result: ChatStreamResult = {};
+    let streamError: string | undefined;
 
     const finish = () => {
-      options?.onMessage(responseText, true);
+      options?.onMessage(responseText, true, result);
       controller.abort();
     };
 
     if (res.ok) {
       const reader = res.body?.getReader();
       const decoder = new TextDecoder();
-
-      options?.onController?.(controller);
-
-      while (true) {
-        const resTimeoutId = setTimeout(finish, TIME_OUT_MS);
-        const content = await reader?.read();
-        clearTimeout(resTimeoutId);
-
-        if (!content || !content.value) {
-          break;
+      const parser = createParser((event) => {
+        if (event.type !== "event") return;
+        for (const streamEvent of toStreamEvents(event.data)) {
+          switch (streamEvent.type) {
+            case "delta":
+              responseText += streamEvent.text;
+              if (streamEvent.toolCalls) {
+                result.toolCalls = mergeToolCallDeltas(
+                  result.toolCalls ?? [],
+                  streamEvent.toolCalls,
+                );
+              }
+              options?.onMessage(responseText, false);
+              break;
+            case "finish":
+              result.finishReason = streamEvent.reason;
+              break;
+            case "usage":
+              result.usage = {
+                promptTokens: streamEvent.promptTokens,
+                completionTokens: streamEvent.completionTokens,
+              };
+              break;
+            case "error":
+              streamError = streamEvent.msg;
+              break;
+          }
         }
+      });
+
+      try {
+        while (true) {
+          const idleTimeoutId = abortAfter(config.idleTimeout, () =>
+            controller.abort(),
+          );
+          const content = await reader?.read();
+          clearTimeout(idleTimeoutId);
 
-        const text = decoder.decode(content.value, { stream: true });
-        responseText += text;
+          if (!content || !content.value) {
+            break;
+          }
 
-        const done = content.done;
-        options?.onMessage(responseText, false);
+          parser.feed(decoder.decode(content.value, { stream: true }));
 
-        if (done) {
-          break;
+          if (content.done) {
+            break;
+          }
+        }
+      } catch (e) {
+        // stopped by the user, handled like before
+        if (controller.signal.aborted && !timedOut) throw e;
+        // a half answer is kept, but not passed off as complete
+        console.warn("[Request] stream interrupted", e);
+        if (responseText.length === 0) {
+          throw timedOut ? new Error(Locale.Error.Timeout) : e;
         }
+        result.interrupted = true;
       }
 
-      finish();
+      // a dropped connection can end the stream cleanly, before the reply did
+      if (!result.finishReason && !streamError) {
+        console.warn("[Request] stream ended without a finish reason");
+        result.interrupted = true;
+      }
+
+      if (streamError) {
+        console.error("[Stream Error] ", streamError);
+        options?.onError(new Error(streamError));
+      } else {
+        finish();
+      }
     } else if (res.status === 401) {
+      const body = (await res.json().catch(() => null)) as ApiError | null;
+      if (body?.code) {
+        // the next request logs in again
+        useAccessStore.getState().clearSession();
+      }
       console.error("Unauthorized");
-      options?.onError(new Error("Unauthorized"), res.status);
+      options?.onError(
+        new Error(body?.msg ? describeApiError(body) : "Unauthorized"),
+        res.status,
+      );
+    } else if (res.status === 429) {
+      const retryAfter = parseInt(res.headers.get("Retry-After") ?? "");
+      const body = (await res.json().catch(() => null)) as ApiError | null;
+      console.error("Rate Limited", body);
+      options?.onError(
+        new Error(
+          retryAfter > 0
+            ? Locale.Error.RetryAfter(retryAfter)
+            : body?.msg
+            ? describeApiError(body)
+            : Locale.Error.Api.rate_limited(""),
+        ),
+        res.status,
+      );
     } else {
-      console.error("Stream Error", res.body);
-      options?.onError(new Error("Stream Error"), res.status);
+      const body = (await res.json().catch(() => null)) as ApiError | null;
+      console.error("Stream Error", body ?? res.body);
+      options?.onError(
+        new Error(body?.msg ? describeApiError(body) : "Stream Error"),
+        res.status,
+      );
     }
   } catch (err) {
     console.error("NetWork Error", err);
     options?.onError(err as Error);
+  } finally {
+    clearTimeout(totalTimeoutId);
   }
 }
 
@@ -272,6 +579,8 @@ export async function requestWithPrompt(
   messages: Message[],
   prompt: string,
   options?: {
+    target?: RequestTarget;
+    session?: ChatSession;
     model?: ModelType;
     temperature?: number;
     presencePenalty?: number;
@@ -290,41 +599,27 @@ export async function requestWithPrompt(
   return res?.choices?.at(0)?.message?.content ?? "";
 }
 
-export function requestTokenCount(message: Message): Promise<number | null> {
-  if (!message.content) {
-    return Promise.resolve(0);
-  }
-  const sortedText = message.content
-    .toLowerCase()
-    .replaceAll(",", "!")
-    .split(" ")
-    .sort()
-    .join(",");
-  return requestChat(
-    [
-      {
-        role: "user",
-        content: `Is the following word list sorted?\n\n${sortedText}`,
-        date: "",
-      },
-    ],
-    {
-      model: "gpt-3.5-turbo",
-      temperature: 0.7,
-      presencePenalty: 0,
-    },
-  ).then((response) => {
-    let nTokens = response?.usage?.prompt_tokens;
-    if (nTokens) {
-      return nTokens;
-    }
-    return null;
-  });
+export function makeSummaryPrompt(
+  prompt: string,
+  modelConfig: ModelConfig,
+  extraInstructions = "",
+) {
+  return [
+    prompt,
+    modelConfig.summaryTargetLength > 0
+      ? Locale.Store.Prompt.SummaryLength(modelConfig.summaryTargetLength)
+      : "",
+    modelConfig.summaryInstructions.trim(),
+    extraInstructions.trim(),
+  ]
+    .filter((part) => part.length > 0)
+    .join("\n\n");
 }
 
 export function summarizeMessageIncrementally(
   message: Message,
   session: ChatSession,
+  extraInstructions?: string,
 ): Promise<SummaryResponse> {
   // if (session.mask.modelConfig.summaryLevel != SummaryLevel.Incremental) {
   //   return Promise.resolve(message);
@@ -334,6 +629,7 @@ export function summarizeMessageIncrementally(
   //   return Promise.resolve(message);
   // }
 
+  const modelConfig = session.mask.modelConfig;
   let systemMessages: Message[] = session.mask.context.filter(
     (message) => message.role == "system",
   );
@@ -347,21 +643,31 @@ export function summarizeMessageIncrementally(
       ...session.messages.slice(0, i).filter((message) => !message.hidden),
       {
         role: "system",
-        content: Locale.Store.Prompt.SummarizeIncremental,
+        content: makeSummaryPrompt(
+          Locale.Store.Prompt.SummarizeIncremental,
+          modelConfig,
+          extraInstructions,
+        ),
         date: message.date,
       },
       message,
     ],
     {
-      model: "gpt-4-turbo-preview",
+      target: modelConfig,
+      session,
+      model: modelConfig.summaryModel,
       temperature: 0.7,
       presencePenalty: 0,
     },
   ).then((response) => {
+    const summary = response?.choices?.at(0)?.message?.content;
     return {
       messageId: message.id,
-      summary: response?.choices?.at(0)?.message?.content,
-      nSummaryTokens: response?.usage?.completion_tokens,
+      summary,
+      nSummaryTokens: countSummaryTokens(
+        { role: message.role, summary },
+        session.mask.modelConfig.model,
+      ),
     };
   });
 }
@@ -385,6 +691,46 @@ export function summarizeMessage(
   );
 }
 
+// To run background summary requests a few at a time
+export const SummaryQueue = {
+  concurrency: 2,
+  running: 0,
+  pending: [] as Array<{ key: string; task: () => Promise<void> }>,
+  // settles once the task ran, whether it failed or not
+  jobs: new Map<string, Promise<void>>(),
+
+  // a key already queued is not queued again, its job is returned
+  add(key: string, task: () => Promise<void>) {
+    let job = this.jobs.get(key);
+    if (!job) {
+      job = new Promise<void>((resolve) => {
+        this.pending.push({ key, task: () => task().finally(resolve) });
+      });
+      this.jobs.set(key, job);
+      this.next();
+    }
+    return job;
+  },
+
+  next() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { key, task } = this.pending.shift()!;
+      this.running += 1;
+      task()
+        .catch((e) => console.error("[Summary Queue] ", e))
+        .finally(() => {
+          this.running -= 1;
+          this.jobs.delete(key);
+          this.next();
+        });
+    }
+  },
+
+  key(sessionId: number, messageId: number) {
+    return `${sessionId},${messageId}`;
+  },
+};
+
 // To store message streaming controller
 export const ControllerPool = {
   controllers: {} as Record<string, AbortController>,
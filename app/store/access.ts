@@ -1,33 +1,92 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { StoreKey } from "../constant";
+import { Provider, StoreKey } from "../constant";
 import { BOT_HELLO } from "./chat";
+import Locale from "../locales";
+import { showToast } from "../components/ui-lib";
+import type { ApiError } from "../api/openai/typing";
+
+export type ConnectionProfile = {
+  id: number;
+  name: string;
+  url: string;
+  token: string;
+  orgId: string;
+  // models offered through this connection, empty for all of them
+  models: string[];
+};
+
+export const DEFAULT_OPENAI_URL = "/api/openai/";
+
+export function createProfile(profile?: Partial<ConnectionProfile>) {
+  return {
+    id: Date.now(),
+    name: "Default",
+    url: DEFAULT_OPENAI_URL,
+    token: "",
+    orgId: "",
+    models: [],
+    ...profile,
+  } as ConnectionProfile;
+}
+
+const DEFAULT_PROFILE = createProfile({ id: 0 });
+
+// log in again a bit before the token runs out
+const SESSION_MARGIN_MS = 60 * 1000;
+
+export type AccessSession = {
+  token: string;
+  expires: number;
+};
 
 export interface AccessControlStore {
   accessCode: string;
-  token: string;
+  // issued by the server for the access code, sent instead of it
+  session?: AccessSession;
 
   needCode: boolean;
   hideUserApiKey: boolean;
-  openaiUrl: string;
+  // upstreams configured on the server
+  providers: Provider[];
+  // set by the server admin, empty allows every model
+  allowedModels: string[];
+
+  profiles: ConnectionProfile[];
+  // used by masks that are not bound to a profile
+  currentProfileId: number;
+
+  addProfile: () => ConnectionProfile;
+  updateProfile: (
+    id: number,
+    updater: (profile: ConnectionProfile) => void,
+  ) => void;
+  deleteProfile: (id: number) => void;
+  selectProfile: (id: number) => void;
+  getProfile: (id?: number | null) => ConnectionProfile;
 
-  updateToken: (_: string) => void;
   updateCode: (_: string) => void;
+  login: () => Promise<string | undefined>;
+  clearSession: () => void;
   enabledAccessControl: () => boolean;
   isAuthorized: () => boolean;
   fetch: () => void;
 }
 
 let fetchState = 0; // 0 not fetch, 1 fetching, 2 done
+// shared by requests that start while a login is running
+let loginPromise: Promise<string | undefined> | undefined;
 
 export const useAccessStore = create<AccessControlStore>()(
   persist(
     (set, get) => ({
-      token: "",
       accessCode: "",
       needCode: true,
       hideUserApiKey: false,
-      openaiUrl: "/api/openai/",
+      providers: [Provider.OpenAI],
+      allowedModels: [],
+      profiles: [DEFAULT_PROFILE],
+      currentProfileId: DEFAULT_PROFILE.id,
 
       enabledAccessControl() {
         get().fetch();
@@ -35,17 +94,95 @@ export const useAccessStore = create<AccessControlStore>()(
         return get().needCode;
       },
       updateCode(code: string) {
-        set(() => ({ accessCode: code }));
+        set(() => ({ accessCode: code, session: undefined }));
       },
-      updateToken(token: string) {
-        set(() => ({ token }));
+      // resolves to a valid session token, logging in when there is none
+      login() {
+        const { accessCode, session } = get();
+        if (session && session.expires - SESSION_MARGIN_MS > Date.now()) {
+          return Promise.resolve(session.token);
+        }
+        if (!accessCode) return Promise.resolve(undefined);
+
+        loginPromise ??= fetch("/api/login", {
+          method: "POST",
+          body: JSON.stringify({ code: accessCode }),
+        })
+          .then((res) => res.json())
+          .then((res: AccessSession | ApiError) => {
+            if ("error" in res) {
+              showToast(
+                res.code ? Locale.Error.Api[res.code](res.msg) : res.msg,
+              );
+              set(() => ({ session: undefined }));
+              return undefined;
+            }
+            set(() => ({
+              session: { token: res.token, expires: res.expires },
+            }));
+            return res.token;
+          })
+          .catch(() => {
+            console.error("[Login] failed to log in");
+            return undefined;
+          })
+          .finally(() => {
+            loginPromise = undefined;
+          });
+        return loginPromise;
+      },
+      clearSession() {
+        set(() => ({ session: undefined }));
+      },
+      addProfile() {
+        const profile = createProfile({
+          name: `Profile ${get().profiles.length + 1}`,
+        });
+        set(() => ({ profiles: [...get().profiles, profile] }));
+        return profile;
+      },
+      updateProfile(id, updater) {
+        const profiles = get().profiles.map((profile) => {
+          if (profile.id !== id) return profile;
+          const updated = { ...profile };
+          updater(updated);
+          return updated;
+        });
+        set(() => ({ profiles }));
+      },
+      deleteProfile(id) {
+        const profiles = get().profiles.filter((p) => p.id !== id);
+        // there is always one profile to fall back to
+        if (profiles.length === 0) return;
+        set(() => ({
+          profiles,
+          currentProfileId:
+            get().currentProfileId === id
+              ? profiles[0].id
+              : get().currentProfileId,
+        }));
+      },
+      selectProfile(id) {
+        set(() => ({ currentProfileId: id }));
+      },
+      // masks bound to a deleted profile fall back to the current one
+      getProfile(id) {
+        const profiles = get().profiles;
+        return (
+          profiles.find((p) => p.id === id) ??
+          profiles.find((p) => p.id === get().currentProfileId) ??
+          profiles.at(0) ??
+          DEFAULT_PROFILE
+        );
       },
       isAuthorized() {
         get().fetch();
 
         // has token or has code or disabled access control
         return (
-          !!get().token || !!get().accessCode || !get().enabledAccessControl()
+          !!get().getProfile().token ||
+          !!get().accessCode ||
+          !get().enabledAccessControl()
         );
       },
       fetch() {
@@ -74,7 +211,24 @@ export const useAccessStore = create<AccessControlStore>()(
     }),
     {
       name: StoreKey.Access,
-      version: 1,
+      version: 2,
+      migrate(persistedState, version) {
+        const state = persistedState as any;
+
+        // the single key and url become the first profile
+        if (version < 2) {
+          const profile = createProfile({
+            token: state.token ?? "",
+            url: state.openaiUrl ?? DEFAULT_OPENAI_URL,
+          });
+          state.profiles = [profile];
+          state.currentProfileId = profile.id;
+          delete state.token;
+          delete state.openaiUrl;
+        }
+
+        return state as AccessControlStore;
+      },
     },
   ),
 );
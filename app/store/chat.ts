@@ -4,28 +4,43 @@ import { persist } from "zustand/middleware";
 import { type ChatCompletionResponseMessage } from "openai";
 import {
   ControllerPool,
+  SummaryQueue,
   requestChatStream,
   requestWithPrompt,
-  requestTokenCount,
   requestChat,
   summarizeMessageIncrementally,
+  makeSummaryPrompt,
 } from "../requests";
 import { isMobileScreen, trimTopic } from "../utils";
 import { INCREMENTAL_SUMMARY_PREFIX } from "../constant";
+import {
+  countMessageTokens,
+  countRequestTokens,
+  countSentTokens,
+  countSummaryTokens,
+  countTextTokens,
+} from "../tokenizer";
 
 import Locale from "../locales";
 import { showToast } from "../components/ui-lib";
 import {
   DEFAULT_CONFIG,
+  fillModelConfig,
+  getModelCapability,
   ModelConfig,
   ModelType,
   SummaryLevel,
   useAppConfig,
 } from "./config";
 import { createEmptyMask, Mask } from "./mask";
+import { recordSessionCost } from "./cost";
+import { assembleContext, type ContextReport } from "../context";
+import { runToolCall } from "../tools";
 import { StoreKey } from "../constant";
+import type { ChatRole, ChatStreamUsage, ToolCall } from "../api/openai/typing";
 
-export type Message = ChatCompletionResponseMessage & {
+export type Message = Omit<ChatCompletionResponseMessage, "role"> & {
+  role: ChatRole;
   date: string;
   streaming?: boolean;
   isError?: boolean;
@@ -36,11 +51,36 @@ export type Message = ChatCompletionResponseMessage & {
   nTokens?: number;
   nSummaryTokens?: number;
   hidden?: boolean;
+  // what the reply cost, set once it is done
+  usage?: MessageUsage;
+  // the reply hit max_tokens and can be continued
+  truncated?: boolean;
+  // the stream broke off or timed out, the reply is incomplete
+  interrupted?: boolean;
+  // asked for by the assistant, each answered by a tool message
+  toolCalls?: ToolCall[];
+  // set on tool messages
+  toolCallId?: string;
+  toolName?: string;
+};
+
+export type MessageUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
 };
 
+// ids follow the clock, but stay unique for messages made in the same ms
+let lastMessageId = 0;
+
+function nextMessageId() {
+  lastMessageId = Math.max(Date.now(), lastMessageId + 1);
+  return lastMessageId;
+}
+
 export function createMessage(override: Partial<Message>): Message {
   return {
-    id: Date.now(),
+    id: nextMessageId(),
     date: new Date().toLocaleString(),
     role: "user",
     content: "",
@@ -48,23 +88,85 @@ export function createMessage(override: Partial<Message>): Message {
   };
 }
 
+// what an undoable action changed, so reverting it leaves later messages alone
+type MessageChanges = {
+  // the old values of the fields the action changed
+  changed: { id: number; fields: Partial<Message> }[];
+  // removed messages go back after the message they followed
+  removed: { message: Message; afterId?: number; index: number }[];
+};
+
+function copyField<K extends keyof Message>(
+  to: Partial<Message>,
+  from: Message,
+  field: K,
+) {
+  to[field] = from[field];
+}
+
+function recordMessageChanges(
+  before: Message[],
+  snapshots: Message[],
+  after: Message[],
+): MessageChanges {
+  const changes: MessageChanges = { changed: [], removed: [] };
+  before.forEach((message, index) => {
+    const old = snapshots[index];
+    if (!after.includes(message)) {
+      changes.removed.push({ message, afterId: before[index - 1]?.id, index });
+      return;
+    }
+
+    const keys = new Set([...Object.keys(old), ...Object.keys(message)]);
+    const fields: Partial<Message> = {};
+    keys.forEach((key) => {
+      const field = key as keyof Message;
+      if (old[field] !== message[field]) {
+        copyField(fields, old, field);
+      }
+    });
+    if (Object.keys(fields).length > 0) {
+      changes.changed.push({ id: message.id ?? -1, fields });
+    }
+  });
+  return changes;
+}
+
+function revertMessageChanges(session: ChatSession, changes: MessageChanges) {
+  changes.changed.forEach(({ id, fields }) => {
+    const message = session.messages.find((m) => m.id === id);
+    if (message) Object.assign(message, fields);
+  });
+  // in order, so a removed message can follow one put back before it
+  changes.removed.forEach(({ message, afterId, index }) => {
+    if (session.messages.includes(message)) return;
+    const after = session.messages.findIndex((m) => m.id === afterId);
+    const insertAt =
+      afterId == null
+        ? 0
+        : after >= 0
+        ? after + 1
+        : Math.min(index, session.messages.length);
+    session.messages.splice(insertAt, 0, message);
+  });
+}
+
 export function countTotalTokens(
   messages: Message[],
   session: ChatSession,
 ): [number, number] {
+  const model = session.mask.modelConfig.model;
   let nPromptTokens: number = 0;
   let nCompletionTokens: number = 0;
 
   [...session.mask.context, ...messages]
     .filter((message) => !message.hidden)
     .forEach((message) => {
-      let nTokens = message.useSummary
-        ? message.nSummaryTokens
-        : message.nTokens;
+      let nTokens = countSentTokens(message, model);
       if (message.role != "user") {
-        nCompletionTokens += nTokens ?? 0;
+        nCompletionTokens += nTokens;
       } else {
-        nPromptTokens += nTokens ?? 0;
+        nPromptTokens += nTokens;
       }
     });
 
@@ -73,6 +175,9 @@ export function countTotalTokens(
 
 export const ROLES: Message["role"][] = ["system", "user", "assistant"];
 
+// model turns after tool calls before the calls are no longer answered
+const MAX_TOOL_ROUNDS = 5;
+
 export interface ChatStat {
   tokenCount: number;
   wordCount: number;
@@ -91,6 +196,7 @@ export interface ChatSession {
   lastSummarizeIndex: number;
   nPromptTokens: number;
   nCompletionTokens: number;
+  lastContext?: ContextReport;
 
   mask: Mask;
 }
@@ -133,9 +239,22 @@ interface ChatStore {
   currentSession: () => ChatSession;
   onNewMessage: (message: Message) => void;
   onUserInput: (content: string) => Promise<void>;
+  continueMessage: (messageId: number) => Promise<void>;
   summarizeSession: () => void;
+  autoSummarizeMessages: () => void;
   updateStat: (message: Message) => void;
   updateCurrentSession: (updater: (session: ChatSession) => void) => void;
+  updateCurrentSessionWithUndo: (
+    toast: string,
+    updater: (session: ChatSession) => void,
+  ) => void;
+  hideMessages: (ids: number[], hidden: boolean) => void;
+  deleteMessages: (ids: number[]) => void;
+  collapseMessagesBefore: (id: number) => void;
+  summarizeMessages: (
+    ids: number[],
+    onProgress?: (done: number, total: number) => void,
+  ) => Promise<void>;
   updateMessage: (
     sessionIndex: number,
     messageIndex: number,
@@ -144,7 +263,10 @@ interface ChatStore {
   resetSession: () => void;
   getMessagesWithMemory: () => Message[];
   getMessagesWithSummarized: () => Message[];
-  //getMessagesBySummaryLevel: () => Message[];
+  getMessagesBySummaryLevel: () => {
+    preamble: Message[];
+    history: Message[];
+  };
   getMemoryPrompt: () => Message;
   clearAllData: () => void;
 }
@@ -277,6 +399,7 @@ export const useChatStore = create<ChatStore>()(
         });
         get().updateStat(message);
         get().summarizeSession();
+        get().autoSummarizeMessages();
       },
 
       async onUserInput(content) {
@@ -287,99 +410,281 @@ export const useChatStore = create<ChatStore>()(
           role: "user",
           content,
         });
+        userMessage.nTokens = countMessageTokens(
+          userMessage,
+          modelConfig.model,
+        );
 
-        requestTokenCount(userMessage).then((nTokens) => {
-          if (!nTokens) return;
-          let message: Message = session.messages.filter(
-            (m) => m.id == userMessage.id,
-          )[0];
-          if (!message) return;
-          get().updateCurrentSession((session) => {
-            message.nTokens = nTokens;
-          });
-        });
-
-        const botMessage: Message = createMessage({
-          role: "assistant",
-          streaming: true,
-          id: userMessage.id! + 1,
-          model: modelConfig.model,
-        });
-
-        // get recent messages
-        //const recentMessages = get().getMessagesBySummaryLevel();
-        //const sendMessages = recentMessages.concat(userMessage);
         const sessionIndex = get().currentSessionIndex;
-        const messageIndex = get().currentSession().messages.length + 1;
 
-        // save user's and bot's message
         get().updateCurrentSession((session) => {
           session.messages.push(userMessage);
-          session.messages.push(botMessage);
         });
 
-        let summaryIntro: Message = {
-          role: "system",
-          content: `Note that any message prefixed by ${INCREMENTAL_SUMMARY_PREFIX} has been previously summarized by you, so it does not appear in full or in the original form. Do not(!) prefix your responses with ${INCREMENTAL_SUMMARY_PREFIX} and do not(!) try to summarize them.`,
-          date: "",
-        };
-        const sendMessages = [
-          summaryIntro,
-          ...session.mask.context,
-          ...session.messages.filter((message) => !message.hidden),
-        ];
+        // one model turn, repeated after tool calls until the model answers
+        const reply = async (round: number) => {
+          const botMessage: Message = createMessage({
+            role: "assistant",
+            streaming: true,
+            model: modelConfig.model,
+          });
+          const messageIndex = get().currentSession().messages.length;
 
-        // make request
-        console.log("[User Input] ", sendMessages);
-        requestChatStream(sendMessages, {
-          onMessage(content, done) {
-            // stream response
-            if (done) {
-              botMessage.streaming = false;
-              botMessage.content = content;
-              requestTokenCount(botMessage).then((nTokens) => {
-                if (!nTokens) return;
-                let message: Message = session.messages.filter(
-                  (m) => m.id == botMessage.id,
-                )[0];
-                if (!message) return;
-                get().updateCurrentSession((session) => {
-                  message.nTokens = nTokens;
-                });
+          get().updateCurrentSession((session) => {
+            session.messages.push(botMessage);
+          });
+
+          // get recent messages and fit them into the model window
+          const { preamble, history } = get().getMessagesBySummaryLevel();
+          let assembled: Awaited<ReturnType<typeof assembleContext>>;
+          try {
+            assembled = await assembleContext(session, preamble, history);
+          } catch (e) {
+            // nothing was sent, the reply must not keep streaming forever
+            console.error("[Chat] failed to assemble context", e);
+            botMessage.content = Locale.Store.Error;
+            botMessage.streaming = false;
+            botMessage.isError = true;
+            userMessage.isError = true;
+            set(() => ({}));
+            return;
+          }
+          const { messages: sendMessages, report } = assembled;
+          get().updateCurrentSession((session) => {
+            session.lastContext = report;
+          });
+          const nTrimmed =
+            report.summarizedIds.length + report.hiddenIds.length;
+          if (nTrimmed > 0) {
+            showToast(
+              Locale.Chat.ContextTrimmed(
+                report.summarizedIds.length,
+                report.hiddenIds.length,
+              ),
+            );
+          }
+
+          // upstream counts when reported, otherwise our own: prompt tokens
+          // are known before sending, the reply is counted after
+          const recordCost = (usage?: ChatStreamUsage) => {
+            const promptTokens = usage?.promptTokens ?? report.nTokens;
+            const completionTokens =
+              usage?.completionTokens ??
+              countTextTokens(botMessage.content, modelConfig.model);
+            const { cost } = recordSessionCost(
+              session,
+              modelConfig.model,
+              promptTokens,
+              completionTokens,
+            );
+            botMessage.usage = {
+              promptTokens,
+              completionTokens,
+              cost,
+            };
+          };
+
+          // results go into the session as tool messages, then the model
+          // gets another turn to answer with them
+          const runTools = async (toolCalls: ToolCall[]) => {
+            for (const call of toolCalls) {
+              const toolMessage = createMessage({
+                role: "tool",
+                toolCallId: call.id,
+                toolName: call.function.name,
+                content: await runToolCall(call),
+              });
+              toolMessage.nTokens = countMessageTokens(
+                toolMessage,
+                modelConfig.model,
+              );
+              get().updateCurrentSession((session) => {
+                session.messages.push(toolMessage);
               });
-              get().onNewMessage(botMessage);
+            }
+            await reply(round + 1);
+          };
+
+          // make request
+          console.log("[User Input] ", sendMessages);
+          requestChatStream(sendMessages, {
+            onMessage(content, done, result) {
+              // stream response
+              if (done) {
+                botMessage.streaming = false;
+                botMessage.content = content;
+                botMessage.nTokens = countMessageTokens(
+                  botMessage,
+                  botMessage.model,
+                );
+                recordCost(result?.usage);
+                botMessage.truncated = result?.finishReason === "length";
+                botMessage.interrupted = !!result?.interrupted;
+                ControllerPool.remove(
+                  sessionIndex,
+                  botMessage.id ?? messageIndex,
+                );
+
+                const toolCalls = result?.toolCalls ?? [];
+                if (toolCalls.length > 0 && !botMessage.interrupted) {
+                  botMessage.toolCalls = toolCalls;
+                  if (round < MAX_TOOL_ROUNDS) {
+                    set(() => ({}));
+                    runTools(toolCalls).catch((e) =>
+                      console.error("[Chat] tool round failed", e),
+                    );
+                    return;
+                  }
+                  // the calls stay unanswered and are left out of requests
+                  botMessage.content ||= Locale.Chat.ToolRoundsExceeded;
+                }
+                get().onNewMessage(botMessage);
+              } else {
+                botMessage.content = content;
+                set(() => ({}));
+              }
+            },
+            onError(error, statusCode) {
+              console.log("Error");
+              const isAborted = error.message.includes("aborted");
+              console.log([error, statusCode, isAborted]);
+              if (statusCode === 401) {
+                // expired codes and sessions say so, anything else needs a code
+                botMessage.content =
+                  error.message === "Unauthorized"
+                    ? Locale.Error.Unauthorized
+                    : error.message;
+              } else if (statusCode === 403 || statusCode === 429) {
+                // refused by the server policy, say why
+                botMessage.content = error.message;
+              } else if (!isAborted) {
+                botMessage.content += "\n\n" + Locale.Store.Error;
+              }
+              botMessage.streaming = false;
+              userMessage.isError = !isAborted;
+              botMessage.isError = !isAborted;
+              // a stopped reply is still paid for up to where it stopped
+              if (isAborted && botMessage.content.length > 0) {
+                recordCost();
+              }
+
+              set(() => ({}));
               ControllerPool.remove(
                 sessionIndex,
                 botMessage.id ?? messageIndex,
               );
-            } else {
-              botMessage.content = content;
+            },
+            onController(controller) {
+              // collect controller for stop/retry
+              ControllerPool.addController(
+                sessionIndex,
+                botMessage.id ?? messageIndex,
+                controller,
+              );
+            },
+            modelConfig: { ...modelConfig },
+          });
+        };
+
+        await reply(0);
+      },
+
+      async continueMessage(messageId) {
+        const session = get().currentSession();
+        const modelConfig = session.mask.modelConfig;
+        const botMessage = session.messages.at(-1);
+        // only the last reply can grow without rewriting what came after it
+        if (
+          !botMessage ||
+          botMessage.id !== messageId ||
+          botMessage.role !== "assistant" ||
+          botMessage.streaming
+        ) {
+          return;
+        }
+
+        // the partial reply is the last message of the history
+        const { preamble, history } = get().getMessagesBySummaryLevel();
+        const { messages, report } = await assembleContext(
+          session,
+          preamble,
+          history,
+        );
+        const continuePrompt: Message = {
+          role: "user",
+          content: Locale.Store.Prompt.Continue,
+          date: "",
+        };
+        const sendMessages = messages.concat(continuePrompt);
+
+        const sessionIndex = get().currentSessionIndex;
+        const previous = botMessage.content;
+        const { truncated, interrupted } = botMessage;
+        botMessage.streaming = true;
+        botMessage.truncated = false;
+        botMessage.interrupted = false;
+        set(() => ({}));
+
+        const finish = () => {
+          botMessage.streaming = false;
+          botMessage.nTokens = countMessageTokens(botMessage, botMessage.model);
+          // an old summary no longer covers the whole reply
+          botMessage.summary = undefined;
+          botMessage.useSummary = false;
+          ControllerPool.remove(sessionIndex, messageId);
+          get().updateCurrentSession((session) => {
+            session.lastUpdate = Date.now();
+          });
+        };
+
+        requestChatStream(sendMessages, {
+          onMessage(content, done, result) {
+            botMessage.content = previous + content;
+            if (!done) {
               set(() => ({}));
+              return;
             }
+
+            const promptTokens =
+              result?.usage?.promptTokens ??
+              report.nTokens + countMessageTokens(continuePrompt);
+            const completionTokens =
+              result?.usage?.completionTokens ??
+              countTextTokens(content, modelConfig.model);
+            const { cost } = recordSessionCost(
+              session,
+              modelConfig.model,
+              promptTokens,
+              completionTokens,
+            );
+            botMessage.usage = {
+              promptTokens:
+                (botMessage.usage?.promptTokens ?? 0) + promptTokens,
+              completionTokens:
+                (botMessage.usage?.completionTokens ?? 0) + completionTokens,
+              cost: (botMessage.usage?.cost ?? 0) + cost,
+            };
+            botMessage.truncated = result?.finishReason === "length";
+            botMessage.interrupted = !!result?.interrupted;
+            finish();
           },
           onError(error, statusCode) {
-            console.log("Error");
             const isAborted = error.message.includes("aborted");
-            console.log([error, statusCode, isAborted]);
-            if (statusCode === 401) {
-              botMessage.content = Locale.Error.Unauthorized;
-            } else if (!isAborted) {
-              botMessage.content += "\n\n" + Locale.Store.Error;
+            if (!isAborted) {
+              // the reply so far stays, the failed part is not appended
+              showToast(
+                statusCode === 401 || statusCode === 403 || statusCode === 429
+                  ? error.message
+                  : Locale.Store.Error,
+              );
+              botMessage.content = previous;
+              botMessage.truncated = truncated;
+              botMessage.interrupted = interrupted;
             }
-            botMessage.streaming = false;
-            userMessage.isError = !isAborted;
-            botMessage.isError = !isAborted;
-
-            set(() => ({}));
-            ControllerPool.remove(sessionIndex, botMessage.id ?? messageIndex);
+            finish();
           },
           onController(controller) {
-            // collect controller for stop/retry
-            ControllerPool.addController(
-              sessionIndex,
-              botMessage.id ?? messageIndex,
-              controller,
-            );
+            ControllerPool.addController(sessionIndex, messageId, controller);
           },
           modelConfig: { ...modelConfig },
         });
@@ -398,17 +703,54 @@ export const useChatStore = create<ChatStore>()(
         } as Message;
       },
 
-      // getMessagesBySummaryLevel() {
-      //   const session = get().currentSession();
-      //   switch (session.mask.modelConfig.summaryLevel) {
-      //     case SummaryLevel.Cumulative:
-      //       return this.getMessagesWithMemory();
-      //     case SummaryLevel.Incremental:
-      //       return this.getMessagesWithSummarized();
-      //     default:
-      //       return session.messages;
-      //   }
-      // },
+      getMessagesBySummaryLevel() {
+        const session = get().currentSession();
+        const modelConfig = session.mask.modelConfig;
+        // replies still streaming are not part of the history yet
+        const isSendable = (message: Message) => !message.streaming;
+
+        switch (modelConfig.summaryLevel) {
+          case SummaryLevel.Cumulative: {
+            const preamble = session.mask.context.slice();
+            if (modelConfig.sendMemory && session.memoryPrompt.length > 0) {
+              preamble.push(get().getMemoryPrompt());
+            }
+
+            // the memory prompt covers everything before lastSummarizeIndex,
+            // keep a few short term messages around it for continuity
+            const startIndex = Math.min(
+              session.lastSummarizeIndex,
+              Math.max(
+                0,
+                session.messages.length - modelConfig.historyMessageCount,
+              ),
+            );
+            return {
+              preamble,
+              history: session.messages
+                .slice(startIndex)
+                .filter((message) => !message.isError && isSendable(message)),
+            };
+          }
+          case SummaryLevel.Incremental:
+            return {
+              preamble: [
+                {
+                  role: "system",
+                  content: `Note that any message prefixed by ${INCREMENTAL_SUMMARY_PREFIX} has been previously summarized by you, so it does not appear in full or in the original form. Do not(!) prefix your responses with ${INCREMENTAL_SUMMARY_PREFIX} and do not(!) try to summarize them.`,
+                  date: "",
+                },
+                ...session.mask.context,
+              ],
+              history: session.messages.filter(isSendable),
+            };
+          default:
+            return {
+              preamble: session.mask.context.slice(),
+              history: session.messages.filter(isSendable),
+            };
+        }
+      },
 
       getMessagesWithSummarized() {
         const session = get().currentSession();
@@ -501,7 +843,9 @@ export const useChatStore = create<ChatStore>()(
           countMessages(session.messages) >= SUMMARIZE_MIN_LEN
         ) {
           requestWithPrompt(session.messages, Locale.Store.Prompt.Topic, {
-            model: "gpt-3.5-turbo",
+            target: session.mask.modelConfig,
+            session,
+            model: session.mask.modelConfig.topicModel,
             temperature: 1,
             presencePenalty: 0,
           }).then((res) => {
@@ -512,17 +856,30 @@ export const useChatStore = create<ChatStore>()(
           });
         }
 
-        // TODO
-        return;
-
         const modelConfig = session.mask.modelConfig;
-        let toBeSummarizedMsgs = session.messages.slice(
-          session.lastSummarizeIndex,
-        );
+        if (
+          modelConfig.summaryLevel !== SummaryLevel.Cumulative ||
+          !modelConfig.sendMemory
+        ) {
+          return;
+        }
+
+        let toBeSummarizedMsgs = session.messages
+          .slice(session.lastSummarizeIndex)
+          .filter((msg) => !msg.isError && !msg.streaming);
 
         const historyMsgLength = countMessages(toBeSummarizedMsgs);
+        if (historyMsgLength <= modelConfig.compressMessageLengthThreshold) {
+          return;
+        }
 
-        if (historyMsgLength > modelConfig?.max_tokens ?? 4000) {
+        // too much to summarize at once, only roll the recent messages in
+        const summaryModel = modelConfig.summaryModel;
+        const { contextWindow } = getModelCapability(summaryModel);
+        if (
+          countRequestTokens(toBeSummarizedMsgs, summaryModel) >
+          contextWindow / 2
+        ) {
           const n = toBeSummarizedMsgs.length;
           toBeSummarizedMsgs = toBeSummarizedMsgs.slice(
             Math.max(0, n - modelConfig.historyMessageCount),
@@ -530,7 +887,9 @@ export const useChatStore = create<ChatStore>()(
         }
 
         // add memory prompt
-        toBeSummarizedMsgs.unshift(get().getMemoryPrompt());
+        if (session.memoryPrompt.length > 0) {
+          toBeSummarizedMsgs.unshift(get().getMemoryPrompt());
+        }
 
         const lastSummarizeIndex = session.messages.length;
 
@@ -541,31 +900,88 @@ export const useChatStore = create<ChatStore>()(
           modelConfig.compressMessageLengthThreshold,
         );
 
+        requestChatStream(
+          toBeSummarizedMsgs.concat({
+            role: "system",
+            content: makeSummaryPrompt(
+              Locale.Store.Prompt.Summarize,
+              modelConfig,
+            ),
+            date: "",
+          }),
+          {
+            modelConfig: {
+              ...DEFAULT_CONFIG.modelConfig,
+              provider: modelConfig.provider,
+              profileId: modelConfig.profileId,
+            },
+            overrideModel: summaryModel,
+            onMessage(message, done, result) {
+              // a broken off summary would replace a good one
+              if (!done || message.length === 0 || result?.interrupted) return;
+              recordSessionCost(
+                session,
+                summaryModel,
+                result?.usage?.promptTokens ??
+                  countRequestTokens(toBeSummarizedMsgs, summaryModel),
+                result?.usage?.completionTokens ??
+                  countTextTokens(message, summaryModel),
+              );
+              session.memoryPrompt = message;
+              session.lastSummarizeIndex = lastSummarizeIndex;
+              console.log("[Memory] ", session.memoryPrompt);
+              set(() => ({}));
+            },
+            onError(error) {
+              console.error("[Summarize] ", error);
+            },
+          },
+        );
+      },
+
+      autoSummarizeMessages() {
+        const session = get().currentSession();
+        const modelConfig = session.mask.modelConfig;
         if (
-          historyMsgLength > modelConfig.compressMessageLengthThreshold &&
-          session.mask.modelConfig.sendMemory
+          modelConfig.summaryLevel !== SummaryLevel.Incremental ||
+          !modelConfig.autoSummarize
         ) {
-          requestChatStream(
-            toBeSummarizedMsgs.concat({
-              role: "system",
-              content: Locale.Store.Prompt.Summarize,
-              date: "",
-            }),
-            {
-              overrideModel: "gpt-3.5-turbo",
-              onMessage(message, done) {
-                session.memoryPrompt = message;
-                if (done) {
-                  console.log("[Memory] ", session.memoryPrompt);
-                  session.lastSummarizeIndex = lastSummarizeIndex;
-                }
-              },
-              onError(error) {
-                console.error("[Summarize] ", error);
-              },
-            },
-          );
+          return;
         }
+
+        // messages of the last few turns are left alone
+        let keepFrom = session.messages.length;
+        let nTurns = 0;
+        while (keepFrom > 0 && nTurns < modelConfig.autoSummarizeKeepTurns) {
+          keepFrom -= 1;
+          if (session.messages[keepFrom].role === "user") nTurns += 1;
+        }
+
+        session.messages
+          .slice(0, keepFrom)
+          .filter(
+            (message) =>
+              (message.role === "assistant" ||
+                (message.role === "user" &&
+                  modelConfig.autoSummarizeUserMessages)) &&
+              !message.summary &&
+              !message.streaming &&
+              !message.isError &&
+              !message.hidden &&
+              (message.nTokens ?? 0) >= modelConfig.autoSummarizeMinTokens,
+          )
+          .forEach((message) => {
+            const key = SummaryQueue.key(session.id, message.id ?? 0);
+            SummaryQueue.add(key, async () => {
+              const res = await summarizeMessageIncrementally(message, session);
+              if (!res.summary) return;
+
+              message.summary = res.summary;
+              message.nSummaryTokens = res.nSummaryTokens;
+              message.useSummary = true;
+              set(() => ({}));
+            });
+          });
       },
 
       updateStat(message) {
@@ -585,6 +1001,140 @@ export const useChatStore = create<ChatStore>()(
         console.log(session.messages);
       },
 
+      updateCurrentSessionWithUndo(toast, updater) {
+        const sessionId = get().currentSession().id;
+        const before = get().currentSession().messages.slice();
+        const snapshots = before.map((m) => ({ ...m }));
+
+        get().updateCurrentSession(updater);
+        const changes = recordMessageChanges(
+          before,
+          snapshots,
+          get().currentSession().messages,
+        );
+
+        showToast(
+          toast,
+          {
+            text: Locale.Home.Revert,
+            onClick() {
+              const sessions = get().sessions;
+              const session = sessions.find((s) => s.id === sessionId);
+              if (!session) return;
+              revertMessageChanges(session, changes);
+              set(() => ({ sessions }));
+            },
+          },
+          5000,
+        );
+      },
+
+      hideMessages(ids, hidden) {
+        get().updateCurrentSessionWithUndo(
+          hidden
+            ? Locale.Chat.Select.HiddenToast(ids.length)
+            : Locale.Chat.Select.ShownToast(ids.length),
+          (session) => {
+            session.messages
+              .filter((m) => ids.includes(m.id ?? -1))
+              .forEach((m) => (m.hidden = hidden));
+          },
+        );
+      },
+
+      deleteMessages(ids) {
+        get().updateCurrentSessionWithUndo(
+          Locale.Chat.Select.DeletedToast(ids.length),
+          (session) => {
+            session.messages = session.messages.filter(
+              (m) => m.streaming || !ids.includes(m.id ?? -1),
+            );
+          },
+        );
+      },
+
+      collapseMessagesBefore(id) {
+        const messages = get().currentSession().messages;
+        const index = messages.findIndex((m) => m.id === id);
+        if (index <= 0) return;
+
+        get().hideMessages(
+          messages
+            .slice(0, index)
+            .filter((m) => !m.hidden)
+            .map((m) => m.id ?? -1),
+          true,
+        );
+      },
+
+      async summarizeMessages(ids, onProgress) {
+        const session = get().currentSession();
+        const targets = session.messages.filter(
+          (m) => ids.includes(m.id ?? -1) && !m.streaming && !m.isError,
+        );
+        // only the summary fields of the targets, messages keep arriving meanwhile
+        const changes: MessageChanges = {
+          changed: targets.map((m) => ({
+            id: m.id ?? -1,
+            fields: {
+              summary: m.summary,
+              nSummaryTokens: m.nSummaryTokens,
+              useSummary: m.useSummary,
+            },
+          })),
+          removed: [],
+        };
+
+        let done = 0;
+        const progress = () => {
+          done += 1;
+          onProgress?.(done, targets.length);
+          set(() => ({}));
+        };
+
+        onProgress?.(0, targets.length);
+        const results = await Promise.all(
+          targets.map(async (message) => {
+            if (!message.summary) {
+              // a message the background queue already has is waited for
+              await SummaryQueue.add(
+                SummaryQueue.key(session.id, message.id ?? 0),
+                async () => {
+                  const res = await summarizeMessageIncrementally(
+                    message,
+                    session,
+                  );
+                  if (!res.summary) return;
+                  message.summary = res.summary;
+                  message.nSummaryTokens = res.nSummaryTokens;
+                },
+              );
+            }
+            message.useSummary = !!message.summary;
+            progress();
+            return message.useSummary;
+          }),
+        );
+        const nFailed = results.filter((summarized) => !summarized).length;
+
+        showToast(
+          nFailed > 0
+            ? Locale.Chat.Select.SummaryFailedToast(
+                targets.length - nFailed,
+                nFailed,
+              )
+            : Locale.Chat.Select.SummarizedToast(targets.length),
+          {
+            text: Locale.Home.Revert,
+            onClick() {
+              revertMessageChanges(session, changes);
+              set(() => ({}));
+            },
+          },
+          5000,
+        );
+      },
+
       clearAllData() {
         localStorage.clear();
         location.reload();
@@ -592,7 +1142,7 @@ export const useChatStore = create<ChatStore>()(
     }),
     {
       name: StoreKey.Chat,
-      version: 2,
+      version: 9,
       migrate(persistedState, version) {
         const state = persistedState as any;
         const newState = JSON.parse(JSON.stringify(state)) as ChatStore;
@@ -613,6 +1163,23 @@ export const useChatStore = create<ChatStore>()(
           }
         }
 
+        // token counts used to come from the api and were approximate
+        if (version < 3) {
+          for (const session of newState.sessions) {
+            const model = session.mask.modelConfig.model;
+            for (const message of session.messages) {
+              message.nTokens = countMessageTokens(message, model);
+              if (message.summary) {
+                message.nSummaryTokens = countSummaryTokens(message, model);
+              }
+            }
+          }
+        }
+
+        for (const session of newState.sessions) {
+          session.mask.modelConfig = fillModelConfig(session.mask.modelConfig);
+        }
+
         return newState;
       },
     },
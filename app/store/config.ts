@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { StoreKey } from "../constant";
+import { Provider, StoreKey } from "../constant";
+import type { ResponseFormat } from "../api/openai/typing";
 
 export enum SubmitKey {
   Enter = "Enter",
@@ -18,7 +19,7 @@ export enum Theme {
 
 export enum SummaryLevel {
   Incremental = "incremental",
-  //Cumulative = "cumulative",
+  Cumulative = "cumulative",
   NoSummary = "none",
 }
 
@@ -35,15 +36,44 @@ export const DEFAULT_CONFIG = {
 
   dontShowMaskSplashScreen: true, // dont show splash screen when create chat
 
+  monthlyBudget: 0, // usd, warns when spend passes it, 0 turns it off
+
+  // seconds, for chat streams
+  connectTimeout: 30, // until the response starts
+  idleTimeout: 60, // between two chunks of a reply
+  totalTimeout: 0, // for the whole reply, 0 turns it off
+  requestRetries: 2, // on network errors, 5xx and rate limits before the reply starts
+
   modelConfig: {
+    provider: Provider.OpenAI as Provider,
+    // connection profile, null follows the one picked in settings
+    profileId: null as number | null,
     model: "gpt-4-turbo-preview" as ModelType,
     temperature: 1,
-    max_tokens: 8000,
+    max_tokens: 4000,
     presence_penalty: 0,
+    frequency_penalty: 0,
+    top_p: 1,
+    n: 1,
+    stop: [] as string[],
+    seed: null as number | null,
+    logit_bias: {} as Record<string, number>,
+    response_format: "text" as ResponseFormat,
+    // names of registered tools the model may call
+    tools: [] as string[],
     sendMemory: true,
     historyMessageCount: 4,
-    compressMessageLengthThreshold: 50,
+    compressMessageLengthThreshold: 1000,
     summaryLevel: SummaryLevel.Incremental,
+    // every summary is a paid request, so users opt in
+    autoSummarize: false,
+    autoSummarizeMinTokens: 300,
+    autoSummarizeKeepTurns: 2,
+    autoSummarizeUserMessages: false,
+    summaryModel: "gpt-4-turbo-preview" as ModelType,
+    topicModel: "gpt-3.5-turbo" as ModelType,
+    summaryTargetLength: 150,
+    summaryInstructions: "",
   },
 };
 
@@ -56,28 +86,32 @@ export type ChatConfigStore = ChatConfig & {
 
 export type ModelConfig = ChatConfig["modelConfig"];
 
-const ENABLE_GPT4 = true;
+export type ModelInfo = {
+  name: string;
+  available: boolean;
+};
 
+// known models, the live list comes from the backend, see ./models.ts
 export const ALL_MODELS = [
   {
     name: "gpt-4-turbo-preview",
-    available: ENABLE_GPT4,
+    available: true,
   },
   {
     name: "gpt-4",
-    available: ENABLE_GPT4,
+    available: true,
   },
   {
     name: "gpt-4-0314",
-    available: ENABLE_GPT4,
+    available: true,
   },
   {
     name: "gpt-4-32k",
-    available: ENABLE_GPT4,
+    available: true,
   },
   {
     name: "gpt-4-32k-0314",
-    available: ENABLE_GPT4,
+    available: true,
   },
   {
     name: "gpt-3.5-turbo",
@@ -91,6 +125,108 @@ export const ALL_MODELS = [
 
 export type ModelType = (typeof ALL_MODELS)[number]["name"];
 
+export type ModelCapability = {
+  contextWindow: number;
+  // the most a reply can take, part of the context window
+  maxOutput: number;
+  // usd per 1k tokens
+  pricing: {
+    prompt: number;
+    completion: number;
+  };
+  streaming: boolean;
+};
+
+export const MODEL_CAPABILITIES: Record<ModelType, ModelCapability> = {
+  "gpt-4-turbo-preview": {
+    contextWindow: 128000,
+    maxOutput: 4096,
+    pricing: { prompt: 0.01, completion: 0.03 },
+    streaming: true,
+  },
+  "gpt-4": {
+    contextWindow: 8192,
+    maxOutput: 4096,
+    pricing: { prompt: 0.03, completion: 0.06 },
+    streaming: true,
+  },
+  "gpt-4-0314": {
+    contextWindow: 8192,
+    maxOutput: 4096,
+    pricing: { prompt: 0.03, completion: 0.06 },
+    streaming: true,
+  },
+  "gpt-4-32k": {
+    contextWindow: 32768,
+    maxOutput: 8192,
+    pricing: { prompt: 0.06, completion: 0.12 },
+    streaming: true,
+  },
+  "gpt-4-32k-0314": {
+    contextWindow: 32768,
+    maxOutput: 8192,
+    pricing: { prompt: 0.06, completion: 0.12 },
+    streaming: true,
+  },
+  "gpt-3.5-turbo": {
+    contextWindow: 16385,
+    maxOutput: 4096,
+    pricing: { prompt: 0.0005, completion: 0.0015 },
+    streaming: true,
+  },
+  "gpt-3.5-turbo-0301": {
+    contextWindow: 4096,
+    maxOutput: 2048,
+    pricing: { prompt: 0.0015, completion: 0.002 },
+    streaming: true,
+  },
+};
+
+// anthropic and self-hosted models are not listed, a small window
+// would make every long chat look like it overflows
+export const DEFAULT_MODEL_CAPABILITY: ModelCapability = {
+  contextWindow: 128000,
+  maxOutput: 4096,
+  pricing: { prompt: 0, completion: 0 },
+  streaming: true,
+};
+
+// undefined for models we know nothing about
+export function findModelCapability(model?: string) {
+  if (!model) return;
+  const known = MODEL_CAPABILITIES[model as ModelType];
+  if (known) return known;
+
+  // dated snapshots like gpt-4-0613 take after their base model
+  const base = (Object.keys(MODEL_CAPABILITIES) as ModelType[])
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)
+    .at(0);
+  return base ? MODEL_CAPABILITIES[base] : undefined;
+}
+
+export function getModelCapability(model?: string): ModelCapability {
+  return findModelCapability(model) ?? DEFAULT_MODEL_CAPABILITY;
+}
+
+// usd spent on a request, zero for models without known pricing
+export function getModelCost(
+  model: string | undefined,
+  promptTokens: number,
+  completionTokens: number,
+) {
+  const { pricing } = getModelCapability(model);
+  return (
+    (promptTokens * pricing.prompt + completionTokens * pricing.completion) /
+    1000
+  );
+}
+
+// model config persisted before an option existed gets its default
+export function fillModelConfig(config: Partial<ModelConfig>): ModelConfig {
+  return { ...DEFAULT_CONFIG.modelConfig, ...config };
+}
+
 export function limitNumber(
   x: number,
   min: number,
@@ -104,18 +240,27 @@ export function limitNumber(
   return Math.min(max, Math.max(min, x));
 }
 
-export function limitModel(name: string) {
-  return ALL_MODELS.some((m) => m.name === name && m.available)
+export function limitModel(
+  name: string,
+  models: readonly ModelInfo[] = ALL_MODELS,
+) {
+  const available = models.filter((m) => m.available);
+  return available.some((m) => m.name === name)
     ? name
-    : ALL_MODELS[4].name;
+    : available.at(0)?.name ?? DEFAULT_CONFIG.modelConfig.model;
 }
 
 export const ModalConfigValidator = {
-  model(x: string) {
-    return limitModel(x) as ModelType;
+  // without a list to check against, e.g. for a self-hosted server, any name goes
+  model(x: string, models?: readonly ModelInfo[]) {
+    if (!models || models.length === 0) {
+      return (x.trim() || DEFAULT_CONFIG.modelConfig.model) as ModelType;
+    }
+    return limitModel(x, models) as ModelType;
   },
-  max_tokens(x: number) {
-    return limitNumber(x, 0, 32000, 8000);
+  max_tokens(x: number, model?: ModelType) {
+    const { maxOutput } = getModelCapability(model);
+    return limitNumber(x, 0, maxOutput, Math.min(4000, maxOutput));
   },
   presence_penalty(x: number) {
     return limitNumber(x, -2, 2, 0);
@@ -123,6 +268,43 @@ export const ModalConfigValidator = {
   temperature(x: number) {
     return limitNumber(x, 0, 1.2, 1);
   },
+  frequency_penalty(x: number) {
+    return limitNumber(x, -2, 2, 0);
+  },
+  top_p(x: number) {
+    return limitNumber(x, 0, 1, 1);
+  },
+  n(x: number) {
+    return Math.round(limitNumber(x, 1, 10, 1));
+  },
+  stop(x: string[]) {
+    return x.filter((s) => s.length > 0).slice(0, 4);
+  },
+  seed(x: number) {
+    return typeof x !== "number" || isNaN(x) ? null : Math.round(x);
+  },
+  logit_bias(x: unknown) {
+    if (typeof x !== "object" || x === null || Array.isArray(x)) return {};
+    const bias: Record<string, number> = {};
+    for (const [token, value] of Object.entries(x)) {
+      if (/^\d+$/.test(token) && typeof value === "number") {
+        bias[token] = limitNumber(value, -100, 100, 0);
+      }
+    }
+    return bias;
+  },
+  response_format(x: string) {
+    return (x === "json_object" ? x : "text") as ResponseFormat;
+  },
+  autoSummarizeMinTokens(x: number) {
+    return limitNumber(x, 0, 4000, 300);
+  },
+  autoSummarizeKeepTurns(x: number) {
+    return limitNumber(x, 0, 20, 2);
+  },
+  summaryTargetLength(x: number) {
+    return limitNumber(x, 0, 1000, 150);
+  },
 };
 
 export const useAppConfig = create<ChatConfigStore>()(
@@ -142,17 +324,20 @@ export const useAppConfig = create<ChatConfigStore>()(
     }),
     {
       name: StoreKey.Config,
-      version: 2,
+      version: 8,
       migrate(persistedState, version) {
-        if (version === 2) return persistedState as any;
-
         const state = persistedState as ChatConfig;
-        state.modelConfig.sendMemory = true;
-        state.modelConfig.historyMessageCount = 4;
-        state.modelConfig.compressMessageLengthThreshold = 1000;
-        state.dontShowMaskSplashScreen = false;
 
-        return state;
+        if (version < 2) {
+          state.modelConfig.sendMemory = true;
+          state.modelConfig.historyMessageCount = 4;
+          state.modelConfig.compressMessageLengthThreshold = 1000;
+          state.dontShowMaskSplashScreen = false;
+        }
+
+        state.modelConfig = fillModelConfig(state.modelConfig);
+
+        return state as any;
       },
     },
   ),
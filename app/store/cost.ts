@@ -0,0 +1,176 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { StoreKey } from "../constant";
+import Locale from "../locales";
+import { showToast } from "../components/ui-lib";
+import { getModelCost, useAppConfig } from "./config";
+import type { ChatSession } from "./chat";
+
+// requests of one day, summed per chat, mask and model, so the
+// persisted list grows with days and chats rather than with requests
+export type CostEntry = {
+  // start of the local day
+  day: number;
+  sessionId?: number;
+  // the latest topic of the chat, only a label
+  topic?: string;
+  mask: string;
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  // usd
+  cost: number;
+};
+
+export type CostRequest = Pick<
+  CostEntry,
+  "sessionId" | "topic" | "mask" | "model" | "promptTokens" | "completionTokens"
+>;
+
+export interface CostStore {
+  entries: CostEntry[];
+
+  // returns the cost of this one request
+  record: (request: CostRequest) => { cost: number };
+  since: (time: number) => CostEntry[];
+  clear: () => void;
+}
+
+const ONE_DAY = 24 * 60 * 60 * 1000;
+// settings only show the current month
+const KEEP_DAYS = 93;
+// share of the budget at which we warn before it is used up
+const BUDGET_WARNING_RATIO = 0.8;
+
+export function startOfDay(now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+export function startOfMonth(now = new Date()) {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+export function sumCost(entries: CostEntry[]) {
+  return entries.reduce((total, entry) => total + entry.cost, 0);
+}
+
+export function groupCost(
+  entries: CostEntry[],
+  by: (entry: CostEntry) => string,
+) {
+  const groups: Record<string, number> = {};
+  for (const entry of entries) {
+    const name = by(entry);
+    groups[name] = (groups[name] ?? 0) + entry.cost;
+  }
+  return groups;
+}
+
+export function formatCost(cost: number) {
+  return `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+function addToEntries(
+  entries: CostEntry[],
+  day: number,
+  request: CostRequest & { requests?: number; cost: number },
+) {
+  const entry = entries.find(
+    (e) =>
+      e.day === day &&
+      e.sessionId === request.sessionId &&
+      e.mask === request.mask &&
+      e.model === request.model,
+  );
+  if (!entry) {
+    entries.push({ requests: 1, ...request, day });
+    return;
+  }
+
+  entry.topic = request.topic ?? entry.topic;
+  entry.requests += request.requests ?? 1;
+  entry.promptTokens += request.promptTokens;
+  entry.completionTokens += request.completionTokens;
+  entry.cost += request.cost;
+}
+
+function warnBudget(before: number, after: number) {
+  const budget = useAppConfig.getState().monthlyBudget;
+  if (budget <= 0) return;
+
+  if (before < budget && after >= budget) {
+    showToast(Locale.Settings.Spend.BudgetReached(formatCost(budget)));
+  } else if (
+    before < budget * BUDGET_WARNING_RATIO &&
+    after >= budget * BUDGET_WARNING_RATIO
+  ) {
+    showToast(Locale.Settings.Spend.BudgetNear(formatCost(after)));
+  }
+}
+
+export const useCostStore = create<CostStore>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      record(request) {
+        const cost = getModelCost(
+          request.model,
+          request.promptTokens,
+          request.completionTokens,
+        );
+
+        const before = sumCost(get().since(startOfMonth()));
+        const expired = startOfDay() - KEEP_DAYS * ONE_DAY;
+        const entries = get().entries.filter((e) => e.day >= expired);
+        addToEntries(entries, startOfDay(), { ...request, cost });
+        set(() => ({ entries }));
+        warnBudget(before, before + cost);
+
+        return { cost };
+      },
+      since(time) {
+        return get().entries.filter((entry) => entry.day >= time);
+      },
+      clear() {
+        set(() => ({ entries: [] }));
+      },
+    }),
+    {
+      name: StoreKey.Cost,
+      version: 2,
+      migrate(persistedState, version) {
+        const state = persistedState as any;
+
+        // one entry per request before, folded into daily totals
+        if (version < 2) {
+          const entries: CostEntry[] = [];
+          for (const { time, ...request } of state.entries ?? []) {
+            addToEntries(entries, startOfDay(new Date(time)), request);
+          }
+          state.entries = entries;
+        }
+
+        return state as CostStore;
+      },
+    },
+  ),
+);
+
+// books a request made for a chat, also housekeeping ones like summaries
+export function recordSessionCost(
+  session: ChatSession,
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+) {
+  return useCostStore.getState().record({
+    sessionId: session.id,
+    topic: session.topic,
+    mask: session.mask.name,
+    model,
+    promptTokens,
+    completionTokens,
+  });
+}
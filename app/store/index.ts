@@ -2,3 +2,5 @@ export * from "./chat";
 export * from "./update";
 export * from "./access";
 export * from "./config";
+export * from "./models";
+export * from "./cost";
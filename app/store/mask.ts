@@ -3,7 +3,12 @@ import { persist } from "zustand/middleware";
 import { BUILTIN_MASKS } from "../masks";
 import { getLang, Lang } from "../locales";
 import { DEFAULT_TOPIC, Message } from "./chat";
-import { ModelConfig, ModelType, useAppConfig } from "./config";
+import {
+  fillModelConfig,
+  ModelConfig,
+  ModelType,
+  useAppConfig,
+} from "./config";
 import { StoreKey } from "../constant";
 
 export type Mask = {
@@ -94,7 +99,16 @@ export const useMaskStore = create<MaskStore>()(
     }),
     {
       name: StoreKey.Mask,
-      version: 2,
+      version: 8,
+      migrate(persistedState) {
+        const state = persistedState as MaskState;
+
+        for (const mask of Object.values(state.masks)) {
+          mask.modelConfig = fillModelConfig(mask.modelConfig);
+        }
+
+        return state as any;
+      },
     },
   ),
 );
@@ -0,0 +1,87 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { Provider, StoreKey } from "../constant";
+import { requestModels, RequestTarget } from "../requests";
+import { useAccessStore } from "./access";
+import { ALL_MODELS, MODEL_CAPABILITIES, ModelInfo } from "./config";
+
+type ModelList = {
+  models: string[];
+  lastUpdate: number;
+};
+
+export interface ModelListStore {
+  lists: Record<string, ModelList>;
+
+  fetchModels: (target: RequestTarget, force?: boolean) => Promise<void>;
+  getModels: (target: RequestTarget) => ModelInfo[];
+}
+
+const TEN_MINUTES = 10 * 60 * 1000;
+
+function listKey(target: RequestTarget) {
+  const profile = useAccessStore.getState().getProfile(target.profileId);
+  return `${profile.id}/${target.provider ?? Provider.OpenAI}`;
+}
+
+// openai lists embeddings, audio and image models as well
+function isChatModel(name: string, provider?: Provider) {
+  if (provider && provider !== Provider.OpenAI) return true;
+  return name in MODEL_CAPABILITIES || /^(gpt-|chatgpt-|o\d)/.test(name);
+}
+
+export const useModelListStore = create<ModelListStore>()(
+  persist(
+    (set, get) => ({
+      lists: {},
+
+      async fetchModels(target, force = false) {
+        const key = listKey(target);
+        const list = get().lists[key];
+        if (!force && list && Date.now() - list.lastUpdate < TEN_MINUTES) {
+          return;
+        }
+
+        const models = await requestModels(target);
+        if (!models) return;
+
+        set(() => ({
+          lists: {
+            ...get().lists,
+            [key]: { models, lastUpdate: Date.now() },
+          },
+        }));
+      },
+
+      // what the key can use, narrowed by the server and the profile
+      getModels(target) {
+        const accessStore = useAccessStore.getState();
+        const profile = accessStore.getProfile(target.profileId);
+        const fetched = get().lists[listKey(target)]?.models;
+
+        let names: string[];
+        if (fetched) {
+          names = fetched.filter((name) => isChatModel(name, target.provider));
+        } else if ((target.provider ?? Provider.OpenAI) === Provider.OpenAI) {
+          names = ALL_MODELS.map((m) => m.name);
+        } else {
+          names = [];
+        }
+
+        const allowed = accessStore.allowedModels;
+        return names
+          .filter((name) => allowed.length === 0 || allowed.includes(name))
+          .filter(
+            (name) =>
+              profile.models.length === 0 || profile.models.includes(name),
+          )
+          .sort()
+          .map((name) => ({ name, available: true }));
+      },
+    }),
+    {
+      name: StoreKey.Models,
+      version: 1,
+    },
+  ),
+);
@@ -2,13 +2,13 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { FETCH_COMMIT_URL, FETCH_TAG_URL, StoreKey } from "../constant";
 import { requestUsage } from "../requests";
+import type { UsageReport } from "../api/accounting";
 
 export interface UpdateStore {
   lastUpdate: number;
   remoteVersion: string;
 
-  used?: number;
-  subscription?: number;
+  usage?: UsageReport;
   lastUpdateUsage: number;
 
   version: string;
@@ -76,13 +76,20 @@ export const useUpdateStore = create<UpdateStore>()(
         const usage = await requestUsage();
 
         if (usage) {
-          set(() => usage);
+          set(() => ({ usage }));
         }
       },
     }),
     {
       name: StoreKey.Update,
-      version: 1,
+      version: 2,
+      migrate(persistedState) {
+        const state = persistedState as any;
+        // balance scraped from the openai dashboard
+        delete state.used;
+        delete state.subscription;
+        return state as UpdateStore;
+      },
     },
   ),
 );
@@ -0,0 +1,88 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import type { Message } from "./store";
+import { INCREMENTAL_SUMMARY_PREFIX } from "./constant";
+
+export type EncodingName = "cl100k_base";
+
+const RANKS = {
+  cl100k_base,
+};
+
+// every chat model we know of speaks cl100k, unknown models fall back to it
+const MODEL_ENCODINGS: Record<string, EncodingName> = {
+  "gpt-4": "cl100k_base",
+  "gpt-3.5-turbo": "cl100k_base",
+};
+const DEFAULT_ENCODING: EncodingName = "cl100k_base";
+
+// tokens wrapped around every reply, <|start|>assistant<|message|>
+export const REPLY_PRIMING_TOKENS = 3;
+
+const encoders: Partial<Record<EncodingName, Tiktoken>> = {};
+
+export function getEncodingName(model?: string): EncodingName {
+  if (!model) return DEFAULT_ENCODING;
+
+  const prefix = Object.keys(MODEL_ENCODINGS).find((name) =>
+    model.startsWith(name),
+  );
+  return prefix ? MODEL_ENCODINGS[prefix] : DEFAULT_ENCODING;
+}
+
+function getEncoder(model?: string) {
+  const name = getEncodingName(model);
+  if (!encoders[name]) {
+    encoders[name] = new Tiktoken(RANKS[name]);
+  }
+  return encoders[name]!;
+}
+
+export function countTextTokens(text: string, model?: string) {
+  if (!text) return 0;
+  return getEncoder(model).encode(text).length;
+}
+
+// see https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
+function messageOverhead(model?: string) {
+  return model === "gpt-3.5-turbo-0301" ? 4 : 3;
+}
+
+export function countMessageTokens(
+  message: Pick<Message, "role" | "content">,
+  model?: string,
+) {
+  return (
+    messageOverhead(model) +
+    countTextTokens(message.role, model) +
+    countTextTokens(message.content, model)
+  );
+}
+
+export function countSummaryTokens(
+  message: Pick<Message, "role" | "summary">,
+  model?: string,
+) {
+  if (!message.summary) return 0;
+  return countMessageTokens(
+    {
+      role: message.role,
+      content: `${INCREMENTAL_SUMMARY_PREFIX} ${message.summary}`,
+    },
+    model,
+  );
+}
+
+// tokens of a message as it goes over the wire, cached counts first
+export function countSentTokens(message: Message, model?: string) {
+  return message.useSummary
+    ? message.nSummaryTokens ?? countSummaryTokens(message, model)
+    : message.nTokens ?? countMessageTokens(message, model);
+}
+
+export function countRequestTokens(messages: Message[], model?: string) {
+  return messages.reduce(
+    (count, message) => count + countSentTokens(message, model),
+    REPLY_PRIMING_TOKENS,
+  );
+}
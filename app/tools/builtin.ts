@@ -0,0 +1,777 @@
+import type { Tool } from ".";
+import Locale from "../locales";
+
+// all of these run offline and give the same answer for the same input,
+// so the model can leave exact work to them
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// own keys only, names like "constructor" must not reach Object.prototype
+function lookup<T>(table: Record<string, T>, name: string): T | undefined {
+  return Object.hasOwn(table, name) ? table[name] : undefined;
+}
+
+// a small recursive descent parser, nothing is passed to eval
+export function evaluate(expression: string) {
+  const tokens =
+    expression.match(
+      /\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi,
+    ) ?? [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => {
+    if (pos >= tokens.length) throw new Error("Unexpected end of expression");
+    return tokens[pos++];
+  };
+  const expect = (token: string) => {
+    const found = next();
+    if (found !== token) throw new Error(`Expected "${token}", got "${found}"`);
+  };
+
+  // sum = product (("+" | "-") product)*
+  function parseSum(): number {
+    let value = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  }
+
+  // product = unary (("*" | "/" | "%") unary)*
+  function parseProduct(): number {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const right = parseUnary();
+      value =
+        op === "*" ? value * right : op === "/" ? value / right : value % right;
+    }
+    return value;
+  }
+
+  // binds looser than the power, so -2^2 is -4
+  function parseUnary(): number {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  // right associative, 2^3^2 is 2^9
+  function parsePower(): number {
+    const base = parsePrimary();
+    if (peek() === "^" || peek() === "**") {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  }
+
+  function parsePrimary(): number {
+    const token = next();
+    if (/^[\d.]/.test(token)) {
+      return parseFloat(token);
+    }
+    if (token === "(") {
+      const value = parseSum();
+      expect(")");
+      return value;
+    }
+
+    const name = token.toLowerCase();
+    const constant = lookup(MATH_CONSTANTS, name);
+    if (constant != null) {
+      return constant;
+    }
+    const fn = lookup(MATH_FUNCTIONS, name);
+    if (fn) {
+      expect("(");
+      const args = [parseSum()];
+      while (peek() === ",") {
+        next();
+        args.push(parseSum());
+      }
+      expect(")");
+      return fn(...args);
+    }
+    throw new Error(`Unknown token "${token}"`);
+  }
+
+  const value = parseSum();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]}"`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error("The result is not a finite number");
+  }
+  return value;
+}
+
+function zoneOffsetMs(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// wall clock times are kept as if they were utc, so the Date utc methods do calendar math
+function toWallClock(instant: number, timeZone: string) {
+  return instant + zoneOffsetMs(instant, timeZone);
+}
+
+function fromWallClock(wallClock: number, timeZone: string) {
+  const offset = zoneOffsetMs(wallClock, timeZone);
+  return wallClock - zoneOffsetMs(wallClock - offset, timeZone);
+}
+
+const ISO_WITHOUT_OFFSET =
+  /^\d{4}-\d\d-\d\d(?:[T ]\d\d:\d\d(?::\d\d(?:\.\d+)?)?)?$/;
+
+// dates without an offset are wall clock times in timeZone, or in utc
+function parseDate(text: string | undefined, timeZone?: string) {
+  if (!text || text === "now") return Date.now();
+
+  const trimmed = text.trim();
+  if (!ISO_WITHOUT_OFFSET.test(trimmed)) {
+    const instant = Date.parse(trimmed);
+    if (isNaN(instant)) throw new Error(`Can not read the date "${text}"`);
+    return instant;
+  }
+
+  const wallClock = Date.parse(trimmed.replace(" ", "T") + "Z");
+  if (isNaN(wallClock)) throw new Error(`Can not read the date "${text}"`);
+  return timeZone ? fromWallClock(wallClock, timeZone) : wallClock;
+}
+
+function describeDate(instant: number, timeZone = "UTC") {
+  return {
+    iso: new Date(instant).toISOString(),
+    local: new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      dateStyle: "full",
+      timeStyle: "long",
+    }).format(new Date(instant)),
+    timeZone,
+  };
+}
+
+type DateAmount = Partial<
+  Record<
+    "years" | "months" | "weeks" | "days" | "hours" | "minutes" | "seconds",
+    number
+  >
+>;
+
+// calendar steps first, so Jan 31 plus one month is the end of February.
+// days follow the wall clock in timeZone, across a dst change noon stays noon
+function addToDate(instant: number, amount: DateAmount, timeZone = "UTC") {
+  const date = new Date(toWallClock(instant, timeZone));
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCFullYear(date.getUTCFullYear() + (amount.years ?? 0));
+  date.setUTCMonth(date.getUTCMonth() + (amount.months ?? 0));
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  date.setUTCDate(Math.min(day, daysInMonth));
+  date.setUTCDate(
+    date.getUTCDate() + (amount.weeks ?? 0) * 7 + (amount.days ?? 0),
+  );
+
+  // hours and below are elapsed time, not wall clock
+  return (
+    fromWallClock(date.getTime(), timeZone) +
+    (amount.hours ?? 0) * 3600000 +
+    (amount.minutes ?? 0) * 60000 +
+    (amount.seconds ?? 0) * 1000
+  );
+}
+
+function dateTime(args: {
+  operation: "now" | "add" | "diff" | "convert";
+  date?: string;
+  to?: string;
+  timeZone?: string;
+  targetTimeZone?: string;
+  amount?: DateAmount;
+}) {
+  const instant = parseDate(args.date, args.timeZone);
+
+  switch (args.operation) {
+    case "now":
+      return describeDate(Date.now(), args.timeZone);
+    case "add":
+      return describeDate(
+        addToDate(instant, args.amount ?? {}, args.timeZone),
+        args.timeZone,
+      );
+    case "diff": {
+      const ms = parseDate(args.to, args.timeZone) - instant;
+      return {
+        milliseconds: ms,
+        seconds: ms / 1000,
+        minutes: ms / 60000,
+        hours: ms / 3600000,
+        days: ms / 86400000,
+        weeks: ms / 604800000,
+      };
+    }
+    case "convert":
+      return {
+        from: describeDate(instant, args.timeZone),
+        to: describeDate(instant, args.targetTimeZone ?? "UTC"),
+      };
+    default:
+      throw new Error(`Unknown operation "${args.operation}"`);
+  }
+}
+
+// factor to the base unit of each dimension
+const UNITS: Record<string, { dimension: string; factor: number }> = {};
+
+function defineUnits(
+  dimension: string,
+  units: Record<string, number>,
+  aliases: Record<string, string> = {},
+) {
+  for (const [unit, factor] of Object.entries(units)) {
+    UNITS[unit] = { dimension, factor };
+  }
+  for (const [alias, unit] of Object.entries(aliases)) {
+    UNITS[alias] = UNITS[unit];
+  }
+}
+
+defineUnits(
+  "length",
+  {
+    mm: 0.001,
+    cm: 0.01,
+    m: 1,
+    km: 1000,
+    in: 0.0254,
+    ft: 0.3048,
+    yd: 0.9144,
+    mi: 1609.344,
+    nmi: 1852,
+  },
+  {
+    meter: "m",
+    meters: "m",
+    metre: "m",
+    kilometer: "km",
+    kilometers: "km",
+    inch: "in",
+    inches: "in",
+    foot: "ft",
+    feet: "ft",
+    yard: "yd",
+    yards: "yd",
+    mile: "mi",
+    miles: "mi",
+  },
+);
+defineUnits(
+  "mass",
+  {
+    mg: 1e-6,
+    g: 0.001,
+    kg: 1,
+    t: 1000,
+    oz: 0.028349523125,
+    lb: 0.45359237,
+    st: 6.35029318,
+  },
+  {
+    gram: "g",
+    grams: "g",
+    kilogram: "kg",
+    kilograms: "kg",
+    tonne: "t",
+    ounce: "oz",
+    ounces: "oz",
+    lbs: "lb",
+    pound: "lb",
+    pounds: "lb",
+    stone: "st",
+  },
+);
+defineUnits(
+  "volume",
+  {
+    ml: 0.001,
+    cl: 0.01,
+    dl: 0.1,
+    l: 1,
+    m3: 1000,
+    tsp: 0.00492892159375,
+    tbsp: 0.01478676478125,
+    floz: 0.0295735295625,
+    cup: 0.2365882365,
+    pt: 0.473176473,
+    qt: 0.946352946,
+    gal: 3.785411784,
+  },
+  {
+    liter: "l",
+    liters: "l",
+    litre: "l",
+    gallon: "gal",
+    gallons: "gal",
+    cups: "cup",
+    pint: "pt",
+    quart: "qt",
+  },
+);
+defineUnits("area", {
+  mm2: 1e-6,
+  cm2: 1e-4,
+  m2: 1,
+  ha: 1e4,
+  km2: 1e6,
+  in2: 0.00064516,
+  ft2: 0.09290304,
+  acre: 4046.8564224,
+  mi2: 2589988.110336,
+});
+defineUnits(
+  "speed",
+  {
+    "m/s": 1,
+    "km/h": 1 / 3.6,
+    mph: 0.44704,
+    kn: 1852 / 3600,
+  },
+  { kph: "km/h", knot: "kn", knots: "kn" },
+);
+defineUnits(
+  "time",
+  {
+    ms: 0.001,
+    s: 1,
+    min: 60,
+    h: 3600,
+    d: 86400,
+    wk: 604800,
+    yr: 31557600,
+  },
+  {
+    second: "s",
+    seconds: "s",
+    minute: "min",
+    minutes: "min",
+    hour: "h",
+    hours: "h",
+    day: "d",
+    days: "d",
+    week: "wk",
+    weeks: "wk",
+    year: "yr",
+    years: "yr",
+  },
+);
+defineUnits(
+  "data",
+  {
+    b: 0.125,
+    kb: 125,
+    Mb: 1.25e5,
+    Gb: 1.25e8,
+    Tb: 1.25e11,
+    B: 1,
+    KB: 1e3,
+    MB: 1e6,
+    GB: 1e9,
+    TB: 1e12,
+    KiB: 1024,
+    MiB: 1024 ** 2,
+    GiB: 1024 ** 3,
+    TiB: 1024 ** 4,
+  },
+  { bit: "b", kbit: "kb", Mbit: "Mb", Gbit: "Gb", Tbit: "Tb", kB: "KB" },
+);
+defineUnits("energy", {
+  J: 1,
+  kJ: 1e3,
+  cal: 4.184,
+  kcal: 4184,
+  Wh: 3600,
+  kWh: 3.6e6,
+});
+defineUnits("pressure", {
+  Pa: 1,
+  kPa: 1e3,
+  bar: 1e5,
+  atm: 101325,
+  psi: 6894.757293168,
+});
+
+// offset scales, kept apart from the factor table
+const TEMPERATURES: Record<
+  string,
+  { toKelvin: (v: number) => number; fromKelvin: (v: number) => number }
+> = {
+  C: { toKelvin: (v) => v + 273.15, fromKelvin: (v) => v - 273.15 },
+  F: {
+    toKelvin: (v) => ((v - 32) * 5) / 9 + 273.15,
+    fromKelvin: (v) => ((v - 273.15) * 9) / 5 + 32,
+  },
+  K: { toKelvin: (v) => v, fromKelvin: (v) => v },
+};
+const TEMPERATURE_ALIASES: Record<string, string> = {
+  c: "C",
+  "°c": "C",
+  celsius: "C",
+  f: "F",
+  "°f": "F",
+  fahrenheit: "F",
+  k: "K",
+  kelvin: "K",
+};
+
+// case matters for data units (MB, Mb), the rest is forgiving
+function findUnit(name: string) {
+  const trimmed = name.trim();
+  const unit = lookup(UNITS, trimmed);
+  if (unit) return unit;
+  const lower = trimmed.toLowerCase();
+  const key = Object.keys(UNITS).find(
+    (unit) => unit.toLowerCase() === lower && UNITS[unit].dimension !== "data",
+  );
+  return key ? UNITS[key] : undefined;
+}
+
+function convertUnits(args: { value: number; from: string; to: string }) {
+  if (typeof args.value !== "number") throw new Error("value must be a number");
+
+  const fromTemperature = lookup(
+    TEMPERATURE_ALIASES,
+    args.from.trim().toLowerCase(),
+  );
+  const toTemperature = lookup(
+    TEMPERATURE_ALIASES,
+    args.to.trim().toLowerCase(),
+  );
+  if (fromTemperature || toTemperature) {
+    if (!fromTemperature || !toTemperature) {
+      throw new Error(`Can not convert ${args.from} to ${args.to}`);
+    }
+    const kelvin = TEMPERATURES[fromTemperature].toKelvin(args.value);
+    return {
+      value: Number(
+        TEMPERATURES[toTemperature].fromKelvin(kelvin).toPrecision(12),
+      ),
+      unit: toTemperature,
+      dimension: "temperature",
+    };
+  }
+
+  const from = findUnit(args.from);
+  const to = findUnit(args.to);
+  if (!from) throw new Error(`Unknown unit "${args.from}"`);
+  if (!to) throw new Error(`Unknown unit "${args.to}"`);
+  if (from.dimension !== to.dimension) {
+    throw new Error(
+      `Can not convert ${from.dimension} (${args.from}) to ${to.dimension} (${args.to})`,
+    );
+  }
+
+  return {
+    value: Number(((args.value * from.factor) / to.factor).toPrecision(12)),
+    unit: args.to,
+    dimension: from.dimension,
+  };
+}
+
+// enough to show a model what a pattern does, not to dump huge texts
+const MAX_REGEX_MATCHES = 100;
+const MAX_REGEX_PATTERN_LENGTH = 1000;
+const MAX_REGEX_TEXT_LENGTH = 100000;
+// a pattern that backtracks catastrophically is stopped after this
+const REGEX_TIMEOUT_MS = 2000;
+
+// self-contained, a worker gets it as source
+function findMatches(
+  pattern: string,
+  flags: string,
+  text: string,
+  maxMatches: number,
+) {
+  const regex = new RegExp(pattern, flags.replace("g", "") + "g");
+  const matches: Record<string, unknown>[] = [];
+  let match: RegExpExecArray | null;
+  while (matches.length < maxMatches && (match = regex.exec(text))) {
+    matches.push({
+      match: match[0],
+      index: match.index,
+      groups: match.slice(1),
+      namedGroups: match.groups,
+    });
+    // an empty match would be found at the same place forever
+    if (match[0] === "") regex.lastIndex += 1;
+  }
+  return { count: matches.length, matches };
+}
+
+// off the main thread, so a runaway pattern can be stopped instead of freezing the tab
+function findMatchesInWorker(...args: Parameters<typeof findMatches>) {
+  const source = `onmessage = (e) => {
+    try {
+      postMessage({ result: (${findMatches.toString()}).apply(null, e.data) });
+    } catch (error) {
+      postMessage({ error: error.message });
+    }
+  };`;
+  const url = URL.createObjectURL(
+    new Blob([source], { type: "text/javascript" }),
+  );
+  const worker = new Worker(url);
+
+  return new Promise<ReturnType<typeof findMatches>>((resolve, reject) => {
+    const stop = () => {
+      clearTimeout(timeoutId);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    };
+    const timeoutId = setTimeout(() => {
+      stop();
+      reject(
+        new Error(
+          `The pattern ran longer than ${REGEX_TIMEOUT_MS}ms, it probably backtracks too much`,
+        ),
+      );
+    }, REGEX_TIMEOUT_MS);
+    worker.onmessage = (e) => {
+      stop();
+      e.data.error ? reject(new Error(e.data.error)) : resolve(e.data.result);
+    };
+    worker.onerror = (e) => {
+      stop();
+      reject(new Error(e.message));
+    };
+    worker.postMessage(args);
+  });
+}
+
+async function testRegex(args: {
+  pattern: string;
+  flags?: string;
+  text: string;
+}) {
+  if (args.pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    throw new Error(
+      `The pattern is longer than ${MAX_REGEX_PATTERN_LENGTH} characters`,
+    );
+  }
+  if (args.text.length > MAX_REGEX_TEXT_LENGTH) {
+    throw new Error(
+      `The text is longer than ${MAX_REGEX_TEXT_LENGTH} characters`,
+    );
+  }
+  const flags = args.flags ?? "";
+  // a bad pattern fails here with a readable message
+  new RegExp(args.pattern, flags);
+
+  return typeof Worker === "undefined"
+    ? findMatches(args.pattern, flags, args.text, MAX_REGEX_MATCHES)
+    : findMatchesInWorker(args.pattern, flags, args.text, MAX_REGEX_MATCHES);
+}
+
+// "a.b[0].c" style paths
+function readPath(value: any, path: string) {
+  const keys = path.match(/[^.[\]]+/g) ?? [];
+  for (const key of keys) {
+    if (
+      value == null ||
+      typeof value !== "object" ||
+      !Object.hasOwn(value, key)
+    ) {
+      throw new Error(`Nothing at "${path}", stopped at "${key}"`);
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+function checkJson(args: { text: string; path?: string }) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(args.text);
+  } catch (e) {
+    return { valid: false, error: (e as Error).message };
+  }
+  const value = args.path ? readPath(parsed, args.path) : parsed;
+  return {
+    valid: true,
+    type: Array.isArray(value)
+      ? "array"
+      : value === null
+      ? "null"
+      : typeof value,
+    value,
+  };
+}
+
+export const BUILTIN_TOOLS: Tool[] = [
+  {
+    name: "calculator",
+    title: Locale.Settings.Tools.Builtin.Calculator,
+    description:
+      "Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and sqrt, cbrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2, exp, min, max, pow. Use it for any calculation instead of doing it yourself.",
+    parameters: {
+      type: "object",
+      properties: {
+        expression: {
+          type: "string",
+          description: "e.g. (1.5 + 2) * sqrt(16) / 3",
+        },
+      },
+      required: ["expression"],
+    },
+    handler: (args: { expression: string }) => ({
+      expression: args.expression,
+      result: evaluate(args.expression),
+    }),
+  },
+  {
+    name: "date_time",
+    title: Locale.Settings.Tools.Builtin.DateTime,
+    description:
+      "Date math and time zone conversion. Operations: now (current time), add (date plus amount), diff (from date to another date), convert (date in timeZone to targetTimeZone). Dates are ISO 8601, without an offset they are read in timeZone, or UTC.",
+    parameters: {
+      type: "object",
+      properties: {
+        operation: {
+          type: "string",
+          enum: ["now", "add", "diff", "convert"],
+        },
+        date: {
+          type: "string",
+          description: "ISO 8601 date or date time, now if left out",
+        },
+        to: {
+          type: "string",
+          description: "the second date, for diff",
+        },
+        timeZone: {
+          type: "string",
+          description: "IANA time zone, e.g. Europe/Berlin",
+        },
+        targetTimeZone: {
+          type: "string",
+          description: "IANA time zone to convert to, for convert",
+        },
+        amount: {
+          type: "object",
+          description: "for add, negative values subtract",
+          properties: {
+            years: { type: "number" },
+            months: { type: "number" },
+            weeks: { type: "number" },
+            days: { type: "number" },
+            hours: { type: "number" },
+            minutes: { type: "number" },
+            seconds: { type: "number" },
+          },
+        },
+      },
+      required: ["operation"],
+    },
+    handler: dateTime,
+  },
+  {
+    name: "convert_units",
+    title: Locale.Settings.Tools.Builtin.Units,
+    description:
+      "Converts a value between units of length, mass, volume, area, speed, time, data, energy, pressure and temperature, e.g. mi to km, lb to kg, F to C, GiB to GB.",
+    parameters: {
+      type: "object",
+      properties: {
+        value: { type: "number" },
+        from: { type: "string", description: "unit symbol, e.g. km" },
+        to: { type: "string", description: "unit symbol, e.g. mi" },
+      },
+      required: ["value", "from", "to"],
+    },
+    handler: convertUnits,
+  },
+  {
+    name: "regex_test",
+    title: Locale.Settings.Tools.Builtin.Regex,
+    description:
+      "Runs a JavaScript regular expression against a text and returns every match with its index and groups.",
+    parameters: {
+      type: "object",
+      properties: {
+        pattern: { type: "string", description: "without slashes" },
+        flags: { type: "string", description: "e.g. i, m, s, u" },
+        text: { type: "string" },
+      },
+      required: ["pattern", "text"],
+    },
+    handler: testRegex,
+  },
+  {
+    name: "json_check",
+    title: Locale.Settings.Tools.Builtin.Json,
+    description:
+      "Checks whether a text is valid JSON and explains the error if not. With a path like a.b[0] it returns the value found there.",
+    parameters: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        path: { type: "string" },
+      },
+      required: ["text"],
+    },
+    handler: checkJson,
+  },
+];
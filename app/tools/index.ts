@@ -0,0 +1,84 @@
+import type { ToolCall, ToolDefinition } from "../api/openai/typing";
+import { BUILTIN_TOOLS } from "./builtin";
+
+export type Tool = {
+  // what the model calls it, letters, digits, _ and - only
+  name: string;
+  // shown in the mask settings, the name if unset
+  title?: string;
+  // tells the model when and how to use it
+  description: string;
+  // json schema of the arguments object
+  parameters: Record<string, unknown>;
+  // runs in the browser, the result is sent back as json
+  handler: (args: any) => unknown | Promise<unknown>;
+};
+
+const TOOLS = new Map<string, Tool>(
+  BUILTIN_TOOLS.map((tool) => [tool.name, tool]),
+);
+
+export function registerTool(tool: Tool) {
+  if (TOOLS.has(tool.name)) {
+    console.warn("[Tools] replacing tool", tool.name);
+  }
+  TOOLS.set(tool.name, tool);
+}
+
+export function getTool(name: string) {
+  return TOOLS.get(name);
+}
+
+export function listTools() {
+  return Array.from(TOOLS.values());
+}
+
+// unknown names, e.g. of tools removed since a mask enabled them, are skipped
+export function getToolDefinitions(names: string[]): ToolDefinition[] {
+  return names
+    .map((name) => TOOLS.get(name))
+    .filter((tool): tool is Tool => !!tool)
+    .map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+}
+
+// stream deltas carry an index and fragments of the name and arguments
+export function mergeToolCallDeltas(calls: ToolCall[], deltas: any[]) {
+  for (const delta of deltas) {
+    const index = delta.index ?? calls.length;
+    const call = (calls[index] ??= {
+      id: "",
+      type: "function",
+      function: { name: "", arguments: "" },
+    });
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.function.name += delta.function.name;
+    if (delta.function?.arguments) {
+      call.function.arguments += delta.function.arguments;
+    }
+  }
+  return calls;
+}
+
+// errors go back to the model as the result, so it can correct itself
+export async function runToolCall(call: ToolCall) {
+  const tool = TOOLS.get(call.function.name);
+  if (!tool) {
+    return JSON.stringify({ error: `Unknown tool ${call.function.name}` });
+  }
+
+  try {
+    const args = JSON.parse(call.function.arguments || "{}");
+    const result = await tool.handler(args);
+    return typeof result === "string" ? result : JSON.stringify(result);
+  } catch (e) {
+    console.error("[Tools] failed to run", call.function.name, e);
+    return JSON.stringify({ error: (e as Error).message ?? String(e) });
+  }
+}
@@ -0,0 +1,9 @@
+const nextJest = require("next/jest");
+
+const createJestConfig = nextJest({ dir: "./" });
+
+/** @type {import('jest').Config} */
+module.exports = createJestConfig({
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/test/**/*.test.ts"],
+});
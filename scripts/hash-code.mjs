@@ -0,0 +1,15 @@
+import { randomBytes, scryptSync } from "crypto";
+
+// prints an ACCESS_CODES entry, usage: yarn hash-code <label> <code> [expires]
+const [label, code, expires] = process.argv.slice(2);
+
+if (!label || !code) {
+  console.error("usage: yarn hash-code <label> <code> [expires]");
+  process.exit(1);
+}
+
+// keep in sync with hashAccessCode in app/api/access.ts
+const salt = randomBytes(16).toString("hex");
+const key = scryptSync(code, salt, 32).toString("hex");
+
+console.log(JSON.stringify({ label, hash: `scrypt$${salt}$${key}`, expires }));
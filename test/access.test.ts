@@ -0,0 +1,182 @@
+import type * as Access from "../app/api/access";
+
+// codes and the session secret are read from the env when the server config loads
+function loadAccess(env: Record<string, string | undefined>) {
+  for (const name of [
+    "CODE",
+    "ACCESS_CODES",
+    "USAGE_ADMIN_CODE",
+    "SESSION_SECRET",
+    "SESSION_TTL",
+  ]) {
+    delete process.env[name];
+  }
+  Object.assign(process.env, env);
+
+  let access!: typeof Access;
+  jest.isolateModules(() => {
+    access = require("../app/api/access");
+  });
+  return access;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("access codes", () => {
+  const { hashAccessCode } = loadAccess({});
+  const access = loadAccess({
+    CODE: "plain-code",
+    ACCESS_CODES: JSON.stringify([
+      { label: "team", hash: hashAccessCode("team-code") },
+      {
+        label: "old",
+        hash: hashAccessCode("old-code"),
+        expires: "2000-01-01",
+      },
+    ]),
+  });
+
+  test("hashes with a random salt", () => {
+    const hash = hashAccessCode("team-code");
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(hashAccessCode("team-code")).not.toBe(hash);
+  });
+
+  test("finds scrypt hashed codes", async () => {
+    const entry = await access.findAccessCode("team-code");
+    expect(entry?.label).toBe("team");
+    expect(await access.findAccessCode("team-cod")).toBeUndefined();
+    expect(await access.findAccessCode("")).toBeUndefined();
+  });
+
+  test("finds plain codes", async () => {
+    expect(await access.findAccessCode("plain-code")).toBeDefined();
+    expect(await access.findAccessCode("Plain-code")).toBeUndefined();
+  });
+
+  test("returns expired codes marked as expired", async () => {
+    const entry = await access.findAccessCode("old-code");
+    expect(entry).toBeDefined();
+    expect(access.isExpired(entry!)).toBe(true);
+  });
+
+  test("ignores malformed hashes", async () => {
+    const broken = loadAccess({
+      ACCESS_CODES: JSON.stringify([{ label: "x", hash: "scrypt$only-salt" }]),
+    });
+    expect(await broken.findAccessCode("only-salt")).toBeUndefined();
+  });
+});
+
+describe("session tokens", () => {
+  const { hashAccessCode } = loadAccess({});
+  const access = loadAccess({
+    SESSION_SECRET: "secret",
+    SESSION_TTL: "60",
+    ACCESS_CODES: JSON.stringify([
+      { label: "team", hash: hashAccessCode("team-code") },
+      {
+        label: "soon",
+        hash: hashAccessCode("soon-code"),
+        expires: new Date(Date.now() + HOUR / 2).toISOString(),
+      },
+    ]),
+  });
+
+  test("verifies a token it signed", async () => {
+    const entry = await access.findAccessCode("team-code");
+    const { token } = access.signSession(entry!);
+    expect(access.verifySession(token)?.label).toBe("team");
+  });
+
+  test("rejects a changed payload or signature", async () => {
+    const entry = await access.findAccessCode("team-code");
+    const { token } = access.signSession(entry!);
+    const [payload, signature] = token.split(".");
+
+    const forged = Buffer.from(
+      JSON.stringify({ id: entry!.id, exp: Date.now() + 100 * HOUR }),
+    ).toString("base64url");
+    expect(access.verifySession(`${forged}.${signature}`)).toBeUndefined();
+    expect(access.verifySession(`${payload}.x${signature}`)).toBeUndefined();
+    expect(access.verifySession(payload)).toBeUndefined();
+  });
+
+  test("rejects tokens of another secret", async () => {
+    const entry = await access.findAccessCode("team-code");
+    const { token } = access.signSession(entry!);
+    const other = loadAccess({
+      SESSION_SECRET: "other",
+      ACCESS_CODES: process.env.ACCESS_CODES,
+    });
+    expect(other.verifySession(token)).toBeUndefined();
+  });
+
+  test("expires after the session ttl", async () => {
+    const entry = await access.findAccessCode("team-code");
+    const { token, expires } = access.signSession(entry!);
+    expect(expires - Date.now()).toBeLessThanOrEqual(HOUR);
+
+    jest.spyOn(Date, "now").mockReturnValue(expires + 1);
+    expect(access.verifySession(token)).toBeUndefined();
+  });
+
+  test("ends no later than the code expires", async () => {
+    const entry = await access.findAccessCode("soon-code");
+    const { expires } = access.signSession(entry!);
+    expect(expires).toBe(entry!.expires);
+  });
+});
+
+describe("isAdmin", () => {
+  test("only the admin code is admin", async () => {
+    const access = loadAccess({
+      CODE: "user-code",
+      USAGE_ADMIN_CODE: "admin-code",
+    });
+    expect(access.isAdmin(await access.findAccessCode("admin-code"))).toBe(
+      true,
+    );
+    expect(access.isAdmin(await access.findAccessCode("user-code"))).toBe(
+      false,
+    );
+    expect(access.isAdmin(undefined)).toBe(false);
+  });
+
+  test("a listed code equal to the admin code logs in as admin", async () => {
+    const access = loadAccess({
+      CODE: "admin-code",
+      USAGE_ADMIN_CODE: "admin-code",
+    });
+    expect(access.isAdmin(await access.findAccessCode("admin-code"))).toBe(
+      true,
+    );
+  });
+
+  test("a label can not take the admin's place", async () => {
+    const { hashAccessCode } = loadAccess({});
+    const access = loadAccess({
+      USAGE_ADMIN_CODE: "admin-code",
+      ACCESS_CODES: JSON.stringify([
+        { label: "admin", hash: hashAccessCode("label-code") },
+      ]),
+    });
+    const entry = await access.findAccessCode("label-code");
+    expect(entry).toBeDefined();
+    expect(access.isAdmin(entry)).toBe(false);
+  });
+
+  test("admin sessions stay admin", async () => {
+    const access = loadAccess({
+      SESSION_SECRET: "secret",
+      USAGE_ADMIN_CODE: "admin-code",
+    });
+    const entry = await access.findAccessCode("admin-code");
+    const { token } = access.signSession(entry!);
+    expect(access.isAdmin(access.verifySession(token))).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createFileUsageStore, UsageEntry } from "../app/api/accounting";
+
+function entry(promptTokens: number): UsageEntry {
+  return {
+    time: Date.now(),
+    key: "code",
+    provider: "openai",
+    model: "gpt-3.5-turbo",
+    promptTokens,
+    completionTokens: 1,
+    estimated: false,
+  };
+}
+
+describe("createFileUsageStore", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "usage-"));
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("skips a line cut off by a crash", async () => {
+    const file = path.join(dir, "usage.jsonl");
+    await fs.writeFile(
+      file,
+      [
+        JSON.stringify(entry(1)),
+        JSON.stringify(entry(2)).slice(0, 20),
+        JSON.stringify(entry(3)),
+      ].join("\n") + "\n",
+    );
+
+    const store = createFileUsageStore(file);
+    const entries = await store.list(0);
+    expect(entries.map((e) => e.promptTokens)).toEqual([1, 3]);
+
+    await store.record(entry(4));
+    expect((await store.list(0)).length).toBe(3);
+  });
+
+  test("starts empty without a file and creates it", async () => {
+    const file = path.join(dir, "data/usage.jsonl");
+    const store = createFileUsageStore(file);
+    expect(await store.list(0)).toEqual([]);
+
+    await store.record(entry(1));
+    expect(await createFileUsageStore(file).list(0)).toHaveLength(1);
+  });
+});
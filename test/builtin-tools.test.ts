@@ -0,0 +1,134 @@
+import { BUILTIN_TOOLS, evaluate } from "../app/tools/builtin";
+
+function run(name: string, args: any): any {
+  const tool = BUILTIN_TOOLS.find((tool) => tool.name === name)!;
+  return tool.handler(args);
+}
+
+describe("calculator", () => {
+  test("follows operator precedence", () => {
+    expect(evaluate("1 + 2 * 3")).toBe(7);
+    expect(evaluate("-2^2")).toBe(-4);
+    expect(evaluate("2^3^2")).toBe(512);
+    expect(evaluate("(1.5 + 2) * sqrt(16)")).toBe(14);
+  });
+
+  test("rejects what it can not read", () => {
+    expect(() => evaluate("2 +")).toThrow();
+    expect(() => evaluate("alert(1)")).toThrow();
+    expect(() => evaluate("1 / 0")).toThrow();
+  });
+
+  test("does not find names on the object prototype", () => {
+    expect(() => evaluate("constructor")).toThrow("Unknown token");
+    expect(() => evaluate("__proto__(1)")).toThrow("Unknown token");
+  });
+});
+
+describe("date_time", () => {
+  test("adds months on the calendar of the time zone", () => {
+    const result = run("date_time", {
+      operation: "add",
+      date: "2024-03-01T01:00",
+      timeZone: "Asia/Tokyo",
+      amount: { months: 1 },
+    });
+    expect(result.iso).toBe("2024-03-31T16:00:00.000Z");
+  });
+
+  test("keeps the wall clock across a dst change", () => {
+    const result = run("date_time", {
+      operation: "add",
+      date: "2024-03-09T12:00",
+      timeZone: "America/New_York",
+      amount: { days: 1 },
+    });
+    expect(result.iso).toBe("2024-03-10T16:00:00.000Z");
+  });
+
+  test("clamps to the end of a shorter month", () => {
+    const result = run("date_time", {
+      operation: "add",
+      date: "2024-01-31",
+      amount: { months: 1 },
+    });
+    expect(result.iso).toBe("2024-02-29T00:00:00.000Z");
+  });
+
+  test("adds hours as elapsed time", () => {
+    const result = run("date_time", {
+      operation: "add",
+      date: "2024-03-10T00:00",
+      timeZone: "America/New_York",
+      amount: { hours: 3 },
+    });
+    expect(result.iso).toBe("2024-03-10T08:00:00.000Z");
+  });
+});
+
+describe("convert_units", () => {
+  test("converts within a dimension", () => {
+    expect(
+      run("convert_units", { value: 10, from: "miles", to: "km" }),
+    ).toEqual({ value: 16.09344, unit: "km", dimension: "length" });
+    expect(run("convert_units", { value: 212, from: "F", to: "C" }).value).toBe(
+      100,
+    );
+  });
+
+  test("tells bits and bytes apart", () => {
+    expect(run("convert_units", { value: 8, from: "Mb", to: "MB" }).value).toBe(
+      1,
+    );
+    expect(() =>
+      run("convert_units", { value: 1, from: "mb", to: "MB" }),
+    ).toThrow();
+    expect(run("convert_units", { value: 1, from: "kB", to: "B" }).value).toBe(
+      1000,
+    );
+  });
+
+  test("does not find names on the object prototype", () => {
+    expect(() =>
+      run("convert_units", { value: 1, from: "constructor", to: "m" }),
+    ).toThrow("Unknown unit");
+    expect(() =>
+      run("convert_units", { value: 1, from: "toString", to: "C" }),
+    ).toThrow("Can not convert");
+  });
+
+  test("refuses to mix dimensions", () => {
+    expect(() =>
+      run("convert_units", { value: 1, from: "kg", to: "m" }),
+    ).toThrow();
+  });
+});
+
+describe("regex_test", () => {
+  test("returns every match with its groups", async () => {
+    const result = await run("regex_test", {
+      pattern: "(\\w)(\\d)",
+      text: "a1 b2",
+    });
+    expect(result.count).toBe(2);
+    expect(result.matches[1]).toMatchObject({
+      match: "b2",
+      index: 3,
+      groups: ["b", "2"],
+    });
+  });
+
+  test("moves on after empty matches", async () => {
+    const result = await run("regex_test", { pattern: "x*", text: "ab" });
+    expect(result.count).toBe(3);
+  });
+
+  test("refuses oversized patterns and texts", async () => {
+    await expect(
+      run("regex_test", { pattern: "a".repeat(1001), text: "a" }),
+    ).rejects.toThrow();
+    await expect(
+      run("regex_test", { pattern: "a", text: "a".repeat(100001) }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,134 @@
+import { NextRequest } from "next/server";
+
+// the allowlist is read from the env when the server config loads
+function loadCommon(allowedPaths?: string) {
+  if (allowedPaths == null) {
+    delete process.env.PROXY_ALLOWED_PATHS;
+  } else {
+    process.env.PROXY_ALLOWED_PATHS = allowedPaths;
+  }
+
+  let common!: typeof import("../app/api/common");
+  jest.isolateModules(() => {
+    common = require("../app/api/common");
+  });
+  return common;
+}
+
+describe("getOpenaiPath", () => {
+  const { getOpenaiPath } = loadCommon();
+
+  test("strips the proxy route prefix", () => {
+    const req = new NextRequest("http://localhost/api/openai/v1/models");
+    expect(getOpenaiPath(req)).toBe("v1/models");
+  });
+
+  test("keeps the query string", () => {
+    const req = new NextRequest(
+      "http://localhost/api/openai/v1/chat/completions?api-version=2024-02-01",
+    );
+    expect(getOpenaiPath(req)).toBe(
+      "v1/chat/completions?api-version=2024-02-01",
+    );
+  });
+
+  test("leaves other paths alone", () => {
+    const req = new NextRequest("http://localhost/v1/models");
+    expect(getOpenaiPath(req)).toBe("/v1/models");
+  });
+});
+
+describe("isPathAllowed", () => {
+  describe("default allowlist", () => {
+    const { isPathAllowed } = loadCommon();
+
+    test("allows chat completions and the model list", () => {
+      expect(isPathAllowed("POST", "v1/chat/completions")).toBe(true);
+      expect(isPathAllowed("GET", "v1/models")).toBe(true);
+    });
+
+    test("matches the method", () => {
+      expect(isPathAllowed("GET", "v1/chat/completions")).toBe(false);
+      expect(isPathAllowed("post", "v1/chat/completions")).toBe(true);
+    });
+
+    test("rejects other endpoints", () => {
+      expect(isPathAllowed("GET", "v1/files")).toBe(false);
+      expect(isPathAllowed("POST", "v1/fine_tuning/jobs")).toBe(false);
+      expect(isPathAllowed("GET", "dashboard/billing/usage")).toBe(false);
+    });
+
+    test("exact paths do not match as prefixes", () => {
+      expect(isPathAllowed("GET", "v1/models/gpt-4")).toBe(false);
+      expect(isPathAllowed("POST", "v1/chat/completions/extra")).toBe(false);
+    });
+
+    test("ignores the query string", () => {
+      expect(
+        isPathAllowed("POST", "v1/chat/completions?api-version=2024-02-01"),
+      ).toBe(true);
+      expect(isPathAllowed("GET", "v1/files?path=v1/models")).toBe(false);
+    });
+  });
+
+  describe("wildcards", () => {
+    const { isPathAllowed } = loadCommon(
+      "GET v1/models*,* v1/embeddings,POST v1/audio/*",
+    );
+
+    test("a trailing * matches the rest of the path", () => {
+      expect(isPathAllowed("GET", "v1/models")).toBe(true);
+      expect(isPathAllowed("GET", "v1/models/gpt-4")).toBe(true);
+      expect(isPathAllowed("POST", "v1/audio/speech")).toBe(true);
+      expect(isPathAllowed("POST", "v1/audio")).toBe(false);
+      expect(isPathAllowed("POST", "v1/models")).toBe(false);
+    });
+
+    test("* as method matches any method", () => {
+      expect(isPathAllowed("GET", "v1/embeddings")).toBe(true);
+      expect(isPathAllowed("POST", "v1/embeddings")).toBe(true);
+      expect(isPathAllowed("DELETE", "v1/embeddings")).toBe(true);
+    });
+  });
+
+  describe("path traversal", () => {
+    const { isPathAllowed } = loadCommon("GET v1/models*,POST v1/audio/*");
+
+    test("rejects dot segments", () => {
+      expect(isPathAllowed("GET", "v1/models/../files")).toBe(false);
+      expect(isPathAllowed("GET", "v1/models/./x")).toBe(false);
+      expect(isPathAllowed("POST", "v1/audio/..")).toBe(false);
+      expect(isPathAllowed("GET", "../v1/models")).toBe(false);
+    });
+
+    test("allows dots inside a segment", () => {
+      expect(isPathAllowed("GET", "v1/models/gpt-3.5-turbo")).toBe(true);
+    });
+
+    test("rejects encoded dots and slashes", () => {
+      expect(isPathAllowed("GET", "v1/models/%2e%2e/files")).toBe(false);
+      expect(isPathAllowed("GET", "v1/models/%2E%2E/files")).toBe(false);
+      expect(isPathAllowed("GET", "v1/models%2f..%2ffiles")).toBe(false);
+      expect(isPathAllowed("GET", "v1/models%2F..%2Ffiles")).toBe(false);
+    });
+
+    test("rejects backslashes", () => {
+      expect(isPathAllowed("GET", "v1/models\\..\\files")).toBe(false);
+    });
+  });
+
+  describe("configured paths", () => {
+    test("a leading slash is optional", () => {
+      const withSlash = loadCommon("GET /v1/models");
+      const withoutSlash = loadCommon("GET v1/models");
+      expect(withSlash.isPathAllowed("GET", "v1/models")).toBe(true);
+      expect(withoutSlash.isPathAllowed("GET", "v1/models")).toBe(true);
+    });
+
+    test("malformed entries are skipped", () => {
+      const { isPathAllowed } = loadCommon("v1/models,GET v1/files");
+      expect(isPathAllowed("GET", "v1/models")).toBe(false);
+      expect(isPathAllowed("GET", "v1/files")).toBe(true);
+    });
+  });
+});
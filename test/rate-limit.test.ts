@@ -0,0 +1,57 @@
+import { createLimiter } from "../app/api/rate-limit";
+
+// 2 at once, then one every 5 seconds
+const limit = { capacity: 2, refillPerSecond: 0.2 };
+
+describe("createLimiter", () => {
+  test("allows a burst up to the capacity", () => {
+    const { take } = createLimiter(() => limit);
+    expect(take("a", 0)).toBe(0);
+    expect(take("a", 0)).toBe(0);
+    expect(take("a", 0)).toBeGreaterThan(0);
+  });
+
+  test("returns the seconds until the next request as retry after", () => {
+    const { take } = createLimiter(() => limit);
+    take("a", 0);
+    take("a", 0);
+    expect(take("a", 0)).toBe(5);
+    expect(take("a", 3000)).toBe(2);
+    expect(take("a", 4500)).toBe(1);
+  });
+
+  test("refills steadily up to the capacity", () => {
+    const { take } = createLimiter(() => limit);
+    take("a", 0);
+    take("a", 0);
+    expect(take("a", 5000)).toBe(0);
+    expect(take("a", 5000)).toBe(5);
+
+    // a long pause does not save more than the capacity
+    expect(take("a", 60000)).toBe(0);
+    expect(take("a", 60000)).toBe(0);
+    expect(take("a", 60000)).toBe(5);
+  });
+
+  test("wait does not take a request", () => {
+    const { take, wait } = createLimiter(() => limit);
+    take("a", 0);
+    expect(wait("a", 0)).toBe(0);
+    expect(wait("a", 0)).toBe(0);
+    expect(take("a", 0)).toBe(0);
+    expect(wait("a", 0)).toBe(5);
+  });
+
+  test("keeps a bucket per key", () => {
+    const { take } = createLimiter(() => limit);
+    take("code:1.2.3.4", 0);
+    take("code:1.2.3.4", 0);
+    expect(take("code:1.2.3.4", 0)).toBeGreaterThan(0);
+    expect(take("other:1.2.3.4", 0)).toBe(0);
+  });
+
+  test("allows everything without a limit", () => {
+    const { take } = createLimiter(() => undefined);
+    for (let i = 0; i < 100; i++) expect(take("a", 0)).toBe(0);
+  });
+});